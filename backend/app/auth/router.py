@@ -2,12 +2,13 @@ from fastapi import APIRouter, Depends, HTTPException, status
 from fastapi.security import OAuth2PasswordBearer, OAuth2PasswordRequestForm
 from sqlalchemy.ext.asyncio import AsyncSession
 from datetime import datetime, timedelta
-from typing import Optional
+from typing import Dict, Optional
+import uuid
 import jwt
 from passlib.context import CryptContext
 
 from app.config import settings
-from app.auth.schemas import UserCreate, UserResponse, Token
+from app.auth.schemas import UserCreate, UserResponse, Token, RefreshRequest
 from app.auth.models import User
 
 router = APIRouter()
@@ -16,12 +17,34 @@ router = APIRouter()
 pwd_context = CryptContext(schemes=["bcrypt"], deprecated="auto")
 oauth2_scheme = OAuth2PasswordBearer(tokenUrl="api/auth/token")
 
+# In-memory accounts keyed by username until the users table is wired up.
+# Seeded with the demo account.
+_users: Dict[str, dict] = {}
+
+# Refresh tokens that can still be exchanged, jti -> username. A token is
+# removed when it is used, so each one works once.
+_refresh_tokens: Dict[str, str] = {}
+
 def verify_password(plain_password: str, hashed_password: str) -> bool:
     return pwd_context.verify(plain_password, hashed_password)
 
 def get_password_hash(password: str) -> str:
     return pwd_context.hash(password)
 
+def _seed_demo_user():
+    if "demo" not in _users:
+        _users["demo"] = {
+            "id": "mock-user-id",
+            "email": "demo@example.com",
+            "username": "demo",
+            "hashed_password": get_password_hash("demo123"),
+            "is_active": True,
+            "created_at": datetime.utcnow()
+        }
+
+def _public_user(user: dict) -> UserResponse:
+    return UserResponse(**{key: value for key, value in user.items() if key != "hashed_password"})
+
 def create_access_token(data: dict, expires_delta: Optional[timedelta] = None):
     to_encode = data.copy()
     if expires_delta:
@@ -33,40 +56,64 @@ def create_access_token(data: dict, expires_delta: Optional[timedelta] = None):
     encoded_jwt = jwt.encode(to_encode, settings.SECRET_KEY, algorithm=settings.ALGORITHM)
     return encoded_jwt
 
+def create_refresh_token(subject: str) -> str:
+    expire = datetime.utcnow() + timedelta(days=settings.REFRESH_TOKEN_EXPIRE_DAYS)
+    jti = str(uuid.uuid4())
+    _refresh_tokens[jti] = subject
+    return jwt.encode(
+        {"sub": subject, "type": "refresh", "jti": jti, "exp": expire},
+        settings.SECRET_KEY,
+        algorithm=settings.ALGORITHM
+    )
+
+def decode_access_token(token: str) -> Optional[dict]:
+    """Claims of a valid access token, or None. Refresh tokens are rejected."""
+    try:
+        payload = jwt.decode(token, settings.SECRET_KEY, algorithms=[settings.ALGORITHM])
+    except jwt.PyJWTError:
+        return None
+    return payload if payload.get("type") != "refresh" else None
+
+def issue_tokens(subject: str) -> dict:
+    """Access token plus a rotated refresh token for `subject`"""
+    access_token_expires = timedelta(minutes=settings.ACCESS_TOKEN_EXPIRE_MINUTES)
+    return {
+        "access_token": create_access_token(data={"sub": subject}, expires_delta=access_token_expires),
+        "token_type": "bearer",
+        "refresh_token": create_refresh_token(subject),
+        "expires_in": int(access_token_expires.total_seconds())
+    }
+
 @router.post("/register", response_model=UserResponse)
 async def register_user(user: UserCreate):
     """Register a new user"""
-    # In a real implementation, you would:
-    # 1. Check if user already exists
-    # 2. Hash the password
-    # 3. Save to database
-    
-    hashed_password = get_password_hash(user.password)
+    _seed_demo_user()
+
+    if user.username in _users:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Username is already taken")
+    if any(existing["email"].lower() == user.email.lower() for existing in _users.values()):
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="An account with this email already exists")
     
-    # Mock user creation for now
     new_user = {
-        "id": "mock-user-id",
+        "id": str(uuid.uuid4()),
         "email": user.email,
         "username": user.username,
+        "hashed_password": get_password_hash(user.password),
         "is_active": True,
         "created_at": datetime.utcnow()
     }
+    _users[user.username] = new_user
     
-    return UserResponse(**new_user)
+    return _public_user(new_user)
 
 @router.post("/token", response_model=Token)
 async def login_for_access_token(form_data: OAuth2PasswordRequestForm = Depends()):
     """Login and get access token"""
-    # Mock authentication for now
-    # In real implementation, verify against database
-    
-    if form_data.username == "demo" and form_data.password == "demo123":
-        access_token_expires = timedelta(minutes=settings.ACCESS_TOKEN_EXPIRE_MINUTES)
-        access_token = create_access_token(
-            data={"sub": form_data.username}, 
-            expires_delta=access_token_expires
-        )
-        return {"access_token": access_token, "token_type": "bearer"}
+    _seed_demo_user()
+
+    user = _users.get(form_data.username)
+    if user and verify_password(form_data.password, user["hashed_password"]):
+        return issue_tokens(form_data.username)
     
     raise HTTPException(
         status_code=status.HTTP_401_UNAUTHORIZED,
@@ -74,14 +121,44 @@ async def login_for_access_token(form_data: OAuth2PasswordRequestForm = Depends(
         headers={"WWW-Authenticate": "Bearer"},
     )
 
+@router.post("/refresh", response_model=Token)
+async def refresh_access_token(request: RefreshRequest):
+    """Exchange a refresh token for a new access token and refresh token.
+    The old refresh token is revoked; presenting it again is rejected."""
+    _seed_demo_user()
+    invalid = HTTPException(
+        status_code=status.HTTP_401_UNAUTHORIZED,
+        detail="Invalid or expired refresh token",
+        headers={"WWW-Authenticate": "Bearer"},
+    )
+
+    try:
+        payload = jwt.decode(request.refresh_token, settings.SECRET_KEY, algorithms=[settings.ALGORITHM])
+    except jwt.PyJWTError:
+        raise invalid
+
+    if payload.get("type") != "refresh" or not payload.get("sub"):
+        raise invalid
+    # Unknown jti: already used, or issued before a restart
+    if _refresh_tokens.pop(str(payload.get("jti")), None) != payload["sub"]:
+        raise invalid
+    if payload["sub"] not in _users:
+        raise invalid
+
+    return issue_tokens(payload["sub"])
+
 @router.get("/me", response_model=UserResponse)
 async def read_users_me(token: str = Depends(oauth2_scheme)):
     """Get current user"""
-    # Mock user data for now
-    return UserResponse(
-        id="mock-user-id",
-        email="demo@example.com",
-        username="demo",
-        is_active=True,
-        created_at=datetime.utcnow()
-    )
\ No newline at end of file
+    _seed_demo_user()
+    unauthorized = HTTPException(
+        status_code=status.HTTP_401_UNAUTHORIZED,
+        detail="Could not validate credentials",
+        headers={"WWW-Authenticate": "Bearer"},
+    )
+
+    payload = decode_access_token(token)
+    user = _users.get(payload.get("sub")) if payload else None
+    if not user:
+        raise unauthorized
+    return _public_user(user)
\ No newline at end of file
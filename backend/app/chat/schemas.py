@@ -8,16 +8,38 @@ class MessageBase(BaseModel):
     model_id: Optional[str] = None
 
 class MessageCreate(MessageBase):
-    pass
+    # Earlier message this one answers or follows, for branched threads
+    parent_id: Optional[str] = None
+
+class ChatHistoryItem(BaseModel):
+    role: str  # "user" or "assistant"
+    content: str
+
+class ChatRequest(MessageCreate):
+    # Prior turns of the active branch, oldest first
+    history: List[ChatHistoryItem] = []
+    # Tools the user picked ("web_search", "crypto_data", "news"); an empty
+    # list means none, and None leaves the choice to the server
+    tools: Optional[List[str]] = None
 
 class MessageResponse(MessageBase):
     id: str
+    parent_id: Optional[str] = None
     conversation_id: str
     created_at: datetime
 
     class Config:
         from_attributes = True
 
+class TitleRequest(BaseModel):
+    prompt: str
+    answer: str
+    model_id: Optional[str] = None
+
+class FeedbackRequest(BaseModel):
+    rating: Optional[str] = None  # "up", "down", or None to clear
+    comment: Optional[str] = None
+
 class ConversationBase(BaseModel):
     title: str
 
@@ -1,13 +1,16 @@
 from fastapi import APIRouter, Depends, HTTPException, WebSocket, WebSocketDisconnect
 from fastapi.responses import StreamingResponse
 from sqlalchemy.ext.asyncio import AsyncSession
-from typing import List, AsyncGenerator
+from typing import List, AsyncGenerator, Optional
 import json
+import uuid
 import asyncio
+from datetime import datetime
 
-from app.chat.schemas import MessageCreate, ConversationCreate, ChatResponse, MessageResponse
+from app.chat.schemas import MessageCreate, ChatRequest, TitleRequest, FeedbackRequest, ConversationCreate, ChatResponse, MessageResponse
 from app.chat.enhanced_services import EnhancedChatService
-from app.auth.router import oauth2_scheme
+from app.auth.router import oauth2_scheme, decode_access_token
+from app.config import settings
 
 router = APIRouter()
 enhanced_chat_service = EnhancedChatService()
@@ -35,7 +38,7 @@ async def create_conversation(
 ):
     """Create a new conversation"""
     new_conversation = {
-        "id": f"conv_{len(str(conversation.title))}",
+        "id": f"conv_{uuid.uuid4().hex[:12]}",
         "title": conversation.title,
         "user_id": "mock-user-id",
         "created_at": "2024-01-01T00:00:00Z"
@@ -54,6 +57,17 @@ async def get_conversations(token: str = Depends(oauth2_scheme)):
         }
     ]
 
+@router.get("/conversations/{conversation_id}/messages")
+async def get_messages(
+    conversation_id: str,
+    before: Optional[str] = None,
+    limit: int = 30,
+    token: str = Depends(oauth2_scheme)
+):
+    """Get a page of messages, oldest first, ending just before `before`"""
+    # Messages are not persisted yet
+    return {"messages": [], "has_more": False}
+
 @router.post("/conversations/{conversation_id}/messages", response_model=MessageResponse)
 async def create_message(
     conversation_id: str,
@@ -62,37 +76,76 @@ async def create_message(
 ):
     """Add a message to conversation"""
     new_message = {
-        "id": f"msg_{len(message.content)}",
+        "id": f"msg_{uuid.uuid4().hex[:12]}",
         "conversation_id": conversation_id,
         "content": message.content,
         "role": message.role,
         "model_id": message.model_id,
+        "parent_id": message.parent_id,
         "created_at": "2024-01-01T00:00:00Z"
     }
     return MessageResponse(**new_message)
 
-@router.post("/conversations/{conversation_id}/chat")
-async def chat_with_enhanced_ai(
+@router.post("/conversations/{conversation_id}/messages/{message_id}/feedback")
+async def submit_message_feedback(
     conversation_id: str,
-    message: MessageCreate,
+    message_id: str,
+    request: FeedbackRequest,
     token: str = Depends(oauth2_scheme)
 ):
-    """Stream AI response with enhanced capabilities (web search, crypto data)"""
-    
+    """Record a thumbs up/down rating for an assistant message"""
+    if request.rating not in (None, "up", "down"):
+        raise HTTPException(status_code=422, detail="rating must be 'up', 'down' or null")
+
+    # Feedback is not persisted yet
+    return {
+        "conversation_id": conversation_id,
+        "message_id": message_id,
+        "rating": request.rating,
+        "comment": request.comment
+    }
+
+def _is_placeholder(result: dict) -> bool:
+    """Placeholder results stand in for search errors and link nowhere ("#")"""
+    return result.get("url", "#") == "#"
+
+def _tools_used(context: dict) -> List[str]:
+    """Tools whose data made it into the answer's context"""
+    return [
+        tool for tool, data in context.items()
+        if not data.get("error")
+        and not ("results" in data and all(_is_placeholder(result) for result in data["results"]))
+    ]
+
+def _sources(context: dict) -> List[dict]:
+    """Web search results the answer can cite, numbered in order from [1]"""
+    results = context.get("web_search", {}).get("results", [])
+    return [
+        {"title": result.get("title", ""), "url": result["url"], "snippet": result.get("description", "")}
+        for result in results
+        if not _is_placeholder(result)
+    ]
+
+def _stream_enhanced_response(message: ChatRequest) -> StreamingResponse:
+    """SSE stream of the enhanced chat service's answer to `message`"""
+
     async def generate_enhanced_response():
         try:
+            context = await enhanced_chat_service.get_context(message.content, message.tools)
+
             # Use enhanced chat service with external API integration
             async for chunk in enhanced_chat_service.generate_ai_response(
                 message=message.content,
                 model_id=message.model_id or "groq-llama-3.1-70b",
-                conversation_history=[]  # Would get from database
+                conversation_history=[item.dict() for item in message.history],
+                context=context
             ):
                 data = {
                     "type": "content",
                     "content": chunk,
                     "finished": False
                 }
-                yield f"data: {json.dumps(data)}\\n\\n"
+                yield f"data: {json.dumps(data)}\n\n"
                 await asyncio.sleep(0.01)  # Small delay for streaming effect
             
             # Send completion message
@@ -105,9 +158,11 @@ async def chat_with_enhanced_ai(
                     "Cryptocurrency data",
                     "News updates",
                     "Multi-AI model support"
-                ]
+                ],
+                "tools_used": _tools_used(context),
+                "sources": _sources(context)
             }
-            yield f"data: {json.dumps(final_data)}\\n\\n"
+            yield f"data: {json.dumps(final_data)}\n\n"
             
         except Exception as e:
             error_data = {
@@ -115,7 +170,7 @@ async def chat_with_enhanced_ai(
                 "content": f"Error: {str(e)}",
                 "finished": True
             }
-            yield f"data: {json.dumps(error_data)}\\n\\n"
+            yield f"data: {json.dumps(error_data)}\n\n"
     
     return StreamingResponse(
         generate_enhanced_response(),
@@ -127,99 +182,236 @@ async def chat_with_enhanced_ai(
         }
     )
 
+@router.post("/conversations/{conversation_id}/chat")
+async def chat_with_enhanced_ai(
+    conversation_id: str,
+    message: ChatRequest,
+    token: str = Depends(oauth2_scheme)
+):
+    """Stream AI response with enhanced capabilities (web search, crypto data)"""
+    return _stream_enhanced_response(message)
+
+@router.post("/guest/chat")
+async def chat_as_guest(message: ChatRequest):
+    """Stream an answer without an account. Guest conversations live in the
+    browser, so nothing is stored and the client sends the full history."""
+    return _stream_enhanced_response(message)
+
+@router.post("/conversations/{conversation_id}/title")
+async def generate_conversation_title(
+    conversation_id: str,
+    request: TitleRequest,
+    token: str = Depends(oauth2_scheme)
+):
+    """Summarize the first exchange of a conversation into a short title"""
+    instruction = (
+        "Write a title of at most six words for this conversation. "
+        "Reply with the title only, without quotes or punctuation at the end.\n\n"
+        f"User: {request.prompt[:1000]}\n\nAssistant: {request.answer[:1000]}"
+    )
+
+    title = ""
+    async for chunk in enhanced_chat_service.generate_ai_response(
+        message=instruction,
+        model_id=request.model_id or "groq-llama-3.1-70b",
+        conversation_history=[],
+        tools=[]
+    ):
+        title += chunk
+
+    return {"id": conversation_id, "title": title.strip().strip('"').strip()[:80]}
+
+# Seconds a new socket has to send its auth frame
+WS_AUTH_TIMEOUT_SECONDS = 10
+# Close codes: the client must sign in again / sent something unusable
+WS_CLOSE_UNAUTHORIZED = 4401
+WS_CLOSE_PROTOCOL_ERROR = 4400
+
+async def _authenticate_websocket(websocket: WebSocket) -> bool:
+    """Wait for {"type": "auth", "token": ...} and check the access token.
+    Tokens travel in the first frame rather than the URL so they stay out of
+    proxy and server logs."""
+    try:
+        frame = json.loads(await asyncio.wait_for(websocket.receive_text(), timeout=WS_AUTH_TIMEOUT_SECONDS))
+    except (asyncio.TimeoutError, json.JSONDecodeError):
+        return False
+    if not isinstance(frame, dict) or frame.get("type") != "auth":
+        return False
+    return decode_access_token(str(frame.get("token", ""))) is not None
+
+async def _stream_ws_reply(websocket: WebSocket, request_id: Optional[str], content: str, frame: dict):
+    """Generate the answer to one chat frame, streaming it as ai_chunk frames.
+
+    Runs as its own task so the socket keeps reading frames meanwhile; a
+    cancel frame for the request cancels it, which stops the generation.
+    """
+    try:
+        context = await enhanced_chat_service.get_context(content, frame.get("tools"))
+        response_content = ""
+        async for chunk in enhanced_chat_service.generate_ai_response(
+            message=content,
+            model_id=frame.get("model_id") or "groq-llama-3.1-70b",
+            conversation_history=frame.get("history") or [],
+            context=context
+        ):
+            response_content += chunk
+            await manager.send_personal_message(
+                json.dumps({"type": "ai_chunk", "request_id": request_id, "content": chunk}),
+                websocket
+            )
+
+        await manager.send_personal_message(
+            json.dumps({
+                "type": "ai_message_complete",
+                "request_id": request_id,
+                "content": response_content,
+                "features_used": ["Enhanced AI", "External APIs"],
+                "tools_used": _tools_used(context),
+                "sources": _sources(context),
+                "timestamp": datetime.utcnow().isoformat() + "Z"
+            }),
+            websocket
+        )
+    except WebSocketDisconnect:
+        pass
+    except Exception as e:
+        await manager.send_personal_message(
+            json.dumps({"type": "error", "request_id": request_id, "content": f"Error: {str(e)}"}),
+            websocket
+        )
+
 @router.websocket("/ws/{conversation_id}")
 async def enhanced_websocket_endpoint(websocket: WebSocket, conversation_id: str):
-    """Enhanced WebSocket endpoint for real-time chat with external data"""
+    """Real-time chat over a WebSocket.
+
+    Client frames: auth, ping, chat {request_id, content, model_id, history, tools}
+    and cancel {request_id}, which stops that request's answer.
+    Server frames: auth_ok, pong, user_message, ai_chunk, ai_message_complete
+    and error, each answer tagged with the request_id it belongs to.
+    """
     await manager.connect(websocket)
+    # Answers being generated, by request_id
+    replies: dict = {}
     try:
+        if not await _authenticate_websocket(websocket):
+            await websocket.close(code=WS_CLOSE_UNAUTHORIZED)
+            manager.disconnect(websocket)
+            return
+        await websocket.send_text(json.dumps({"type": "auth_ok"}))
+
         while True:
-            data = await websocket.receive_text()
-            message_data = json.loads(data)
-            
-            # Echo back the user message
+            try:
+                frame = json.loads(await websocket.receive_text())
+            except json.JSONDecodeError:
+                await websocket.close(code=WS_CLOSE_PROTOCOL_ERROR)
+                manager.disconnect(websocket)
+                return
+
+            frame_type = frame.get("type")
+            if frame_type == "ping":
+                await websocket.send_text(json.dumps({"type": "pong"}))
+                continue
+            if frame_type == "cancel":
+                reply = replies.get(frame.get("request_id"))
+                if reply:
+                    reply.cancel()
+                continue
+            if frame_type != "chat":
+                await websocket.send_text(json.dumps({
+                    "type": "error",
+                    "content": f"Unknown frame type: {frame_type}"
+                }))
+                continue
+
+            request_id = frame.get("request_id")
+            content = frame.get("content", "")
             await manager.send_personal_message(
                 json.dumps({
                     "type": "user_message",
-                    "content": message_data.get("content", ""),
-                    "timestamp": "2024-01-01T00:00:00Z"
+                    "request_id": request_id,
+                    "content": content,
+                    "timestamp": datetime.utcnow().isoformat() + "Z"
                 }),
                 websocket
             )
-            
-            # Generate enhanced AI response
-            response_content = ""
-            async for chunk in enhanced_chat_service.generate_ai_response(
-                message=message_data.get("content", ""),
-                model_id=message_data.get("model_id", "groq-llama-3.1-70b"),
-                conversation_history=[]
-            ):
-                response_content += chunk
-                # Send chunk in real-time
-                await manager.send_personal_message(
-                    json.dumps({
-                        "type": "ai_chunk",
-                        "content": chunk,
-                        "timestamp": "2024-01-01T00:00:00Z"
-                    }),
-                    websocket
-                )
-            
-            # Send final complete message
-            await manager.send_personal_message(
-                json.dumps({
-                    "type": "ai_message_complete",
-                    "content": response_content,
-                    "features_used": ["Enhanced AI", "External APIs"],
-                    "timestamp": "2024-01-01T00:00:00Z"
-                }),
-                websocket
+
+            reply = asyncio.create_task(_stream_ws_reply(websocket, request_id, content, frame))
+            replies[request_id] = reply
+            reply.add_done_callback(
+                lambda done, key=request_id: replies.pop(key, None) if replies.get(key) is done else None
             )
-            
+
     except WebSocketDisconnect:
         manager.disconnect(websocket)
+    finally:
+        # Nobody is left to read the answers
+        for reply in list(replies.values()):
+            reply.cancel()
+
+# Models offered to clients; the frontend's model registry is filled from here
+AVAILABLE_MODELS = [
+    {
+        "id": "gpt-4",
+        "name": "GPT-4",
+        "provider": "OpenAI",
+        "description": "Most capable GPT-4 model with web search",
+        "context_window": 8192,
+        "features": ["web_search", "crypto_data"]
+    },
+    {
+        "id": "gpt-3.5-turbo",
+        "name": "GPT-3.5 Turbo",
+        "provider": "OpenAI",
+        "description": "Fast and efficient model with real-time data",
+        "context_window": 16385,
+        "features": ["web_search", "crypto_data"]
+    },
+    {
+        "id": "claude-3-5-sonnet-20241022",
+        "name": "Claude 3.5 Sonnet",
+        "provider": "Anthropic",
+        "description": "Latest Claude model with enhanced capabilities",
+        "context_window": 200000,
+        "features": ["web_search", "crypto_data", "news"]
+    },
+    {
+        "id": "groq-llama-3.1-70b",
+        "name": "Llama 3.1 70B (Groq)",
+        "provider": "Groq",
+        "description": "Ultra-fast inference with real-time data",
+        "context_window": 131072,
+        "features": ["web_search", "crypto_data", "ultra_fast"],
+        "recommended": True
+    },
+    {
+        "id": "groq-llama-3.1-8b",
+        "name": "Llama 3.1 8B (Groq)",
+        "provider": "Groq",
+        "description": "Instant responses with external data",
+        "context_window": 131072,
+        "features": ["web_search", "crypto_data", "instant"]
+    }
+]
+
+# API key each provider needs; without it the model cannot answer
+PROVIDER_API_KEYS = {
+    "OpenAI": "OPENAI_API_KEY",
+    "Anthropic": "ANTHROPIC_API_KEY",
+    "Groq": "GROQ_API_KEY",
+}
+
+def _with_availability(model: dict) -> dict:
+    """Mark a model unavailable, with the reason, when its provider is not configured"""
+    key_name = PROVIDER_API_KEYS.get(model["provider"])
+    if key_name and not getattr(settings, key_name, None):
+        return {**model, "available": False, "unavailable_reason": f"{model['provider']} API key is not configured"}
+    return {**model, "available": True}
 
 @router.get("/models")
 async def get_available_models():
     """Get list of available AI models with enhanced capabilities"""
     return {
-        "models": [
-            {
-                "id": "gpt-4",
-                "name": "GPT-4",
-                "provider": "OpenAI",
-                "description": "Most capable GPT-4 model with web search",
-                "features": ["web_search", "crypto_data"]
-            },
-            {
-                "id": "gpt-3.5-turbo",
-                "name": "GPT-3.5 Turbo",
-                "provider": "OpenAI",
-                "description": "Fast and efficient model with real-time data",
-                "features": ["web_search", "crypto_data"]
-            },
-            {
-                "id": "claude-3-5-sonnet-20241022",
-                "name": "Claude 3.5 Sonnet",
-                "provider": "Anthropic",
-                "description": "Latest Claude model with enhanced capabilities",
-                "features": ["web_search", "crypto_data", "news"]
-            },
-            {
-                "id": "groq-llama-3.1-70b",
-                "name": "Llama 3.1 70B (Groq)",
-                "provider": "Groq",
-                "description": "Ultra-fast inference with real-time data",
-                "features": ["web_search", "crypto_data", "ultra_fast"],
-                "recommended": True
-            },
-            {
-                "id": "groq-llama-3.1-8b",
-                "name": "Llama 3.1 8B (Groq)",
-                "provider": "Groq",
-                "description": "Instant responses with external data",
-                "features": ["web_search", "crypto_data", "instant"]
-            }
-        ],
+        "models": [_with_availability(model) for model in AVAILABLE_MODELS],
         "external_apis": {
             "brave_search": "Real-time web search",
             "binance": "Cryptocurrency market data",
@@ -240,7 +432,7 @@ async def get_chat_capabilities():
             "WebSocket real-time chat",
             "Context-aware responses"
         ],
-        "models_available": 5,
+        "models_available": len(AVAILABLE_MODELS),
         "external_apis": 3,
         "real_time_data": True,
         "streaming": True
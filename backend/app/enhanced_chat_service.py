@@ -1,4 +1,4 @@
-from typing import List, AsyncGenerator, Dict, Any
+from typing import List, AsyncGenerator, Dict, Any, Optional
 import asyncio
 import json
 import aiohttp
@@ -7,6 +7,9 @@ from app.config import settings
 from app.external_apis.brave_search import BraveSearchService
 from app.external_apis.binance import BinanceService
 
+# Tools a chat request can ask for
+CHAT_TOOLS = ("web_search", "crypto_data", "news")
+
 class EnhancedChatService:
     def __init__(self):
         self.groq_api_key = settings.GROQ_API_KEY
@@ -18,14 +21,21 @@ class EnhancedChatService:
     async def generate_ai_response(self, 
                                  message: str,
                                  model_id: str,
-                                 conversation_history: List[Dict] = None) -> AsyncGenerator[str, None]:
-        """Generate AI response with enhanced context from external APIs"""
+                                 conversation_history: List[Dict] = None,
+                                 tools: Optional[List[str]] = None,
+                                 context: Optional[Dict[str, Any]] = None) -> AsyncGenerator[str, None]:
+        """Generate AI response with enhanced context from external APIs.
+
+        `tools` lists the tools the user asked for; None falls back to
+        guessing from the message. A `context` already gathered with
+        get_context() is used as is.
+        """
         
         if conversation_history is None:
             conversation_history = []
         
         # Analyze message for external data needs
-        enhanced_context = await self._get_enhanced_context(message)
+        enhanced_context = context if context is not None else await self.get_context(message, tools)
         
         # Build system message with enhanced context
         system_message = self._build_enhanced_system_message(enhanced_context)
@@ -50,13 +60,38 @@ class EnhancedChatService:
             async for chunk in self._generate_enhanced_mock_response(message, enhanced_context):
                 yield chunk
     
-    async def _get_enhanced_context(self, message: str) -> Dict[str, Any]:
-        """Get enhanced context from external APIs based on message content"""
+    async def get_context(self, message: str, tools: Optional[List[str]] = None) -> Dict[str, Any]:
+        """Gather external data for `message` from the requested tools.
+
+        Keys of the result are the tools that ran; a tool that failed holds
+        an "error" entry. Without `tools`, they are guessed from keywords.
+        """
+        if tools is None:
+            tools = self._guess_tools(message)
+        return await self._get_enhanced_context(message, [tool for tool in tools if tool in CHAT_TOOLS])
+
+    def _guess_tools(self, message: str) -> List[str]:
+        """Tools a message seems to need, for clients that do not say"""
+        text = message.lower()
+        search_keywords = ["search", "find", "what is", "tell me about", "latest", "news", "current", "recent"]
+        crypto_keywords = ["bitcoin", "btc", "ethereum", "eth", "crypto", "cryptocurrency", 
+                          "binance", "trading", "price", "market", "coin", "token"]
+        news_keywords = ["news", "breaking", "headline", "recent news", "latest news"]
+
+        tools = []
+        if any(keyword in text for keyword in search_keywords):
+            tools.append("web_search")
+        if any(keyword in text for keyword in crypto_keywords):
+            tools.append("crypto_data")
+        if any(keyword in text for keyword in news_keywords):
+            tools.append("news")
+        return tools
+
+    async def _get_enhanced_context(self, message: str, tools: List[str]) -> Dict[str, Any]:
+        """Get enhanced context from the external APIs behind `tools`"""
         context = {}
         
-        # Check for search-related keywords
-        search_keywords = ["search", "find", "what is", "tell me about", "latest", "news", "current", "recent"]
-        if any(keyword in message.lower() for keyword in search_keywords):
+        if "web_search" in tools:
             try:
                 search_results = await self.brave_search.search(message, count=3)
                 context["web_search"] = {
@@ -66,10 +101,7 @@ class EnhancedChatService:
             except Exception as e:
                 context["web_search"] = {"error": str(e)}
         
-        # Check for crypto-related keywords  
-        crypto_keywords = ["bitcoin", "btc", "ethereum", "eth", "crypto", "cryptocurrency", 
-                          "binance", "trading", "price", "market", "coin", "token"]
-        if any(keyword in message.lower() for keyword in crypto_keywords):
+        if "crypto_data" in tools:
             try:
                 # Get crypto market data
                 market_data = await self.binance_service.get_market_data()
@@ -82,9 +114,7 @@ class EnhancedChatService:
             except Exception as e:
                 context["crypto_data"] = {"error": str(e)}
         
-        # Check for news-related keywords
-        news_keywords = ["news", "breaking", "headline", "recent news", "latest news"]
-        if any(keyword in message.lower() for keyword in news_keywords):
+        if "news" in tools:
             try:
                 news_results = await self.brave_search.search_news(message, count=3)
                 context["news"] = {
@@ -106,8 +136,10 @@ class EnhancedChatService:
             search_data = context["web_search"]
             if "results" in search_data:
                 base_message += "\n\nCurrent web search results:\n"
-                for result in search_data["results"]:
-                    base_message += f"- {result.get('title', '')}: {result.get('description', '')}\n"
+                for number, result in enumerate(search_data["results"], start=1):
+                    base_message += f"[{number}] {result.get('title', '')} ({result.get('url', '')}): {result.get('description', '')}\n"
+                base_message += ("When you use a search result, cite it right after the claim with its "
+                                 "number in square brackets, like [1].\n")
         
         if context.get("crypto_data"):
             crypto_data = context["crypto_data"]
@@ -145,7 +177,7 @@ class EnhancedChatService:
             
             if context["web_search"].get("results"):
                 result = context["web_search"]["results"][0]
-                yield f"According to recent sources: {result.get('description', 'Information found.')}"
+                yield f"According to recent sources: {result.get('description', 'Information found.')} [1]"
                 await asyncio.sleep(0.1)
         
         elif context.get("crypto_data"):
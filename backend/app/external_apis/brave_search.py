@@ -2,6 +2,22 @@ import aiohttp
 from typing import List, Dict, Any, Optional
 from app.config import settings
 
+class BraveRateLimitError(Exception):
+    """Brave Search rejected the request with HTTP 429"""
+
+    def __init__(self, retry_after: int):
+        super().__init__(f"Brave Search rate limit exceeded, retry after {retry_after}s")
+        self.retry_after = retry_after
+
+def _retry_after_seconds(headers) -> int:
+    """Seconds until the rate limit resets, from Retry-After or X-RateLimit-Reset"""
+    value = headers.get("Retry-After") or headers.get("X-RateLimit-Reset", "")
+    try:
+        # X-RateLimit-Reset lists one value per window; the first is the shortest
+        return max(1, int(value.split(",")[0].strip()))
+    except ValueError:
+        return 1
+
 class BraveSearchService:
     def __init__(self, api_key: str = None):
         self.api_key = api_key or settings.BRAVE_SEARCH_API_KEY
@@ -36,6 +52,8 @@ class BraveSearchService:
                     params=params,
                     headers=self.headers
                 ) as response:
+                    if response.status == 429:
+                        raise BraveRateLimitError(_retry_after_seconds(response.headers))
                     if response.status == 200:
                         data = await response.json()
                         results = []
@@ -64,6 +82,8 @@ class BraveSearchService:
                     else:
                         return [{"title": "Search Error", "description": f"API returned status {response.status}", "url": "#"}]
         
+        except BraveRateLimitError:
+            raise
         except Exception as e:
             return [{"title": "Search Error", "description": f"Error: {str(e)}", "url": "#"}]
     
@@ -86,6 +106,8 @@ class BraveSearchService:
                     params=params,
                     headers=self.headers
                 ) as response:
+                    if response.status == 429:
+                        raise BraveRateLimitError(_retry_after_seconds(response.headers))
                     if response.status == 200:
                         data = await response.json()
                         results = []
@@ -96,6 +118,7 @@ class BraveSearchService:
                                 "description": result.get("description", ""),
                                 "url": result.get("url", ""),
                                 "published": result.get("age", ""),
+                                "published_at": result.get("page_age", ""),
                                 "source": result.get("meta_url", {}).get("hostname", "")
                             })
                         
@@ -103,5 +126,7 @@ class BraveSearchService:
                     else:
                         return [{"title": "News Search Error", "description": f"API returned status {response.status}"}]
         
+        except BraveRateLimitError:
+            raise
         except Exception as e:
             return [{"title": "News Search Error", "description": f"Error: {str(e)}"}]
\ No newline at end of file
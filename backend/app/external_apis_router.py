@@ -1,7 +1,7 @@
 from fastapi import APIRouter, HTTPException
 from typing import Dict, Any, List
 import asyncio
-from app.external_apis.brave_search import BraveSearchService
+from app.external_apis.brave_search import BraveSearchService, BraveRateLimitError
 from app.external_apis.binance import BinanceService
 from app.config import settings
 
@@ -11,6 +11,14 @@ router = APIRouter()
 brave_search = BraveSearchService()
 binance_service = BinanceService()
 
+def rate_limited(error: BraveRateLimitError) -> HTTPException:
+    """429 response telling the client when it may retry"""
+    return HTTPException(
+        status_code=429,
+        detail=str(error),
+        headers={"Retry-After": str(error.retry_after)}
+    )
+
 @router.get("/search")
 async def search_web(query: str, count: int = 10):
     """Search the web using Brave Search API"""
@@ -22,6 +30,8 @@ async def search_web(query: str, count: int = 10):
             "results": results,
             "count": len(results)
         }
+    except BraveRateLimitError as e:
+        raise rate_limited(e)
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Search failed: {str(e)}")
 
@@ -36,6 +46,8 @@ async def search_news(query: str, count: int = 5):
             "results": results,
             "count": len(results)
         }
+    except BraveRateLimitError as e:
+        raise rate_limited(e)
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"News search failed: {str(e)}")
 
@@ -0,0 +1,54 @@
+'use client';
+
+import Link from 'next/link';
+import { ArrowLeft, LogOut } from 'lucide-react';
+import { AuthCard } from '@/components/auth';
+import { useAuth } from '@/hooks';
+
+export default function AccountPage() {
+  const { user, logout } = useAuth();
+
+  if (!user) return null;
+
+  const memberSince = new Date(user.created_at).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  return (
+    <AuthCard
+      title="Account"
+      subtitle="You are signed in on this device"
+      footer={
+        <Link href="/" className="inline-flex items-center space-x-1 font-medium text-blue-600 dark:text-blue-400 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to chat</span>
+        </Link>
+      }
+    >
+      <dl className="space-y-3 text-sm">
+        <div className="flex justify-between">
+          <dt className="text-gray-500 dark:text-gray-400">Username</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{user.username}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-gray-500 dark:text-gray-400">Email</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{user.email}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-gray-500 dark:text-gray-400">Member since</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">{memberSince}</dd>
+        </div>
+      </dl>
+      <button
+        type="button"
+        onClick={logout}
+        className="mt-6 w-full inline-flex items-center justify-center space-x-2 rounded-lg border border-red-200 dark:border-red-800 px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+      >
+        <LogOut className="h-4 w-4" />
+        <span>Sign out</span>
+      </button>
+    </AuthCard>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, ArrowLeft, Clock, Loader2, RefreshCw, TrendingUp } from 'lucide-react';
+import { MarketTable, MoversList, SymbolDrawer } from '@/components/crypto';
+import { useCryptoMarket, useDarkMode } from '@/hooks';
+import { CRYPTO_REFRESH_INTERVAL_MS } from '@/lib/config';
+import {
+  buildCryptoDiscussionPrompt,
+  isStale,
+  nextSort,
+  REFRESH_INTERVAL_OPTIONS,
+  sortTickers,
+  type MarketSort,
+  type MarketSortKey
+} from '@/lib/crypto';
+import { seedNewChat } from '@/lib/drafts';
+import { formatRelativeTime } from '@/lib/utils';
+
+const REFRESH_INTERVAL_KEY = 'crypto_refresh_interval';
+// How often "Updated ..." and the stale flag are re-evaluated
+const CLOCK_TICK_MS = 5000;
+
+export default function CryptoPage() {
+  // Applies the saved theme; this page renders outside the chat screen
+  useDarkMode();
+  const router = useRouter();
+  const [refreshIntervalMs, setRefreshIntervalMs] = useState(CRYPTO_REFRESH_INTERVAL_MS);
+  const { tickers, movers, updatedAt, isLoading, error, refresh } = useCryptoMarket(refreshIntervalMs);
+  const [sort, setSort] = useState<MarketSort>({ key: 'volume', direction: 'desc' });
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Restore the interval picked on an earlier visit
+  useEffect(() => {
+    const saved = localStorage.getItem(REFRESH_INTERVAL_KEY);
+    if (saved !== null && REFRESH_INTERVAL_OPTIONS.some(option => option.ms === Number(saved))) {
+      setRefreshIntervalMs(Number(saved));
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const sortedTickers = useMemo(() => sortTickers(tickers, sort), [tickers, sort]);
+  const selectedTicker = tickers.find(ticker => ticker.symbol === selectedSymbol);
+  const stale = isStale(updatedAt, refreshIntervalMs, now);
+
+  const handleIntervalChange = (ms: number) => {
+    setRefreshIntervalMs(ms);
+    localStorage.setItem(REFRESH_INTERVAL_KEY, String(ms));
+  };
+
+  const handleClose = useCallback(() => setSelectedSymbol(null), []);
+
+  // Open a new chat whose composer holds the pair's figures
+  const handleDiscuss = (symbol: string) => {
+    seedNewChat(buildCryptoDiscussionPrompt(symbol, tickers.find(ticker => ticker.symbol === symbol)));
+    router.push('/');
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="mx-auto max-w-5xl px-4 py-8">
+        <Link href="/" className="inline-flex items-center space-x-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to chat</span>
+        </Link>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <TrendingUp className="h-7 w-7 text-green-500" />
+            <div>
+              <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Crypto market</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">24h prices and volume from Binance</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {updatedAt !== null && (
+              <span
+                role="status"
+                className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium ${
+                  stale
+                    ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                <Clock className="h-3.5 w-3.5" />
+                {stale ? 'Stale · ' : ''}Updated {formatRelativeTime(new Date(updatedAt), new Date(now))}
+              </span>
+            )}
+            <label className="inline-flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <span className="text-xs">Auto-refresh</span>
+              <select
+                value={refreshIntervalMs}
+                onChange={(e) => handleIntervalChange(Number(e.target.value))}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-2 py-1.5 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {REFRESH_INTERVAL_OPTIONS.map(option => (
+                  <option key={option.ms} value={option.ms}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={refresh}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1.5 rounded-xl bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p role="alert" className="mt-6 flex items-start space-x-2 rounded-lg bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {error.message}
+              {tickers.length > 0 && ' Showing the last prices received.'}
+            </span>
+          </p>
+        )}
+
+        {tickers.length === 0 && isLoading ? (
+          <div className="mt-10 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400" role="status">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading market data...
+          </div>
+        ) : (
+          <div className="mt-6 grid gap-4 lg:grid-cols-[1fr_18rem]">
+            {tickers.length > 0 ? (
+              <MarketTable
+                tickers={sortedTickers}
+                sort={sort}
+                onSort={(key: MarketSortKey) => setSort(current => nextSort(current, key))}
+                onSelect={setSelectedSymbol}
+              />
+            ) : (
+              <p className="rounded-2xl border border-gray-200/60 dark:border-gray-700/60 bg-white/80 dark:bg-gray-800/60 p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                No market data available.
+              </p>
+            )}
+            <div className="space-y-4">
+              <MoversList title="Top gainers" movers={movers?.gainers ?? []} direction="up" onSelect={setSelectedSymbol} />
+              <MoversList title="Top losers" movers={movers?.losers ?? []} direction="down" onSelect={setSelectedSymbol} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedSymbol && (
+        <SymbolDrawer
+          symbol={selectedSymbol}
+          ticker={selectedTicker}
+          onClose={handleClose}
+          onDiscuss={handleDiscuss}
+        />
+      )}
+    </main>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Send, Sparkles, Globe, TrendingUp, User, Bot, Mic, Paperclip, Zap, Activity } from 'lucide-react';
+import { Send, Sparkles, Globe, TrendingUp, User, Bot, Mic, Paperclip, Zap, Activity, AlertTriangle } from 'lucide-react';
 import { useChat, useExternalData, useAppCapabilities } from '@/hooks';
 import { AIModelDropdown } from '@/components/magicui/ai-model-dropdown';
 
@@ -38,6 +38,7 @@ export default function EnhancedHome() {
     cryptoData,
     isSearching,
     apiHealth,
+    error: externalError,
     searchWeb,
     getCryptoData
   } = useExternalData();
@@ -115,6 +116,13 @@ export default function EnhancedHome() {
             {/* Model Selector & Status */}
             <div className="flex items-center space-x-4">
               {/* API Health Indicator */}
+              {externalError && (
+                <div className="flex items-center space-x-2" title={externalError.message}>
+                  <AlertTriangle className="h-4 w-4 text-red-500" />
+                  <span className="text-xs text-red-400 max-w-[16rem] truncate">{externalError.message}</span>
+                </div>
+              )}
+
               {apiHealth && (
                 <div className="flex items-center space-x-2">
                   <Activity className={`h-4 w-4 ${
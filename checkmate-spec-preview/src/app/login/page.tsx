@@ -0,0 +1,104 @@
+'use client';
+
+import { Suspense, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AuthCard, FormField, submitButtonClass } from '@/components/auth';
+import { useAuth } from '@/hooks';
+import { safeRedirectPath, validateLogin, type FieldErrors } from '@/lib/validation';
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { login, continueAsGuest } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<'username' | 'password'>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const next = safeRedirectPath(searchParams.get('next'));
+  const notice = searchParams.get('reason') === 'expired'
+    ? 'Your session has expired. Sign in again to pick up where you left off.'
+    : null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const errors = validateLogin({ username, password });
+    setFieldErrors(errors);
+    setError(null);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await login(username.trim(), password);
+      router.replace(next);
+    } catch (error) {
+      setError((error as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Sign in"
+      subtitle="Welcome back to Sync AI"
+      error={error}
+      notice={notice}
+      footer={
+        <>
+          New here?{' '}
+          <Link href={`/register${next !== '/' ? `?next=${encodeURIComponent(next)}` : ''}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            Create an account
+          </Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <FormField
+          id="username"
+          label="Username"
+          autoComplete="username"
+          autoFocus
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          error={fieldErrors.username}
+        />
+        <FormField
+          id="password"
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          error={fieldErrors.password}
+        />
+        <button type="submit" disabled={isSubmitting} className={submitButtonClass}>
+          {isSubmitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+      <button
+        type="button"
+        onClick={() => {
+          continueAsGuest();
+          router.replace('/');
+        }}
+        className="mt-3 w-full rounded-lg border border-gray-300 dark:border-gray-600 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+      >
+        Continue as guest
+      </button>
+      <p className="mt-2 text-center text-xs text-gray-500 dark:text-gray-400">
+        Guest chats stay in this browser until you sign in.
+      </p>
+    </AuthCard>
+  );
+}
+
+export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, ArrowLeft, Loader2, MessageSquare, Newspaper, Search } from 'lucide-react';
+import { NewsClusterCard } from '@/components/news';
+import { useDarkMode, useExternalData } from '@/hooks';
+import { seedNewChat } from '@/lib/drafts';
+import { buildNewsDiscussionPrompt, clusterStories } from '@/lib/news';
+
+const TOPICS = ['Top stories', 'Markets', 'Crypto', 'Technology', 'World'];
+// Enough articles for duplicates across outlets to show up
+const ARTICLE_COUNT = 20;
+
+export default function NewsPage() {
+  // Applies the saved theme; this page renders outside the chat screen
+  useDarkMode();
+  const router = useRouter();
+  const { newsResults, isSearching, error, searchNews } = useExternalData();
+  const [query, setQuery] = useState(TOPICS[0]);
+  const [topic, setTopic] = useState(TOPICS[0]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Results without a link are the API's placeholders for a missing key or a failed search
+  const articles = useMemo(() => newsResults.filter(item => item.url), [newsResults]);
+  const notice = articles.length === 0 && newsResults.length > 0 ? newsResults[0].description : null;
+  const clusters = useMemo(() => clusterStories(articles), [articles]);
+  const selectedClusters = clusters.filter(cluster => selectedIds.has(cluster.id));
+
+  const search = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setTopic(trimmed);
+    setSelectedIds(new Set());
+    searchNews(trimmed, ARTICLE_COUNT);
+  };
+
+  useEffect(() => {
+    searchNews(TOPICS[0], ARTICLE_COUNT);
+  }, [searchNews]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    search(query);
+  };
+
+  const toggleCluster = (clusterId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(clusterId)) {
+        next.delete(clusterId);
+      } else {
+        next.add(clusterId);
+      }
+      return next;
+    });
+  };
+
+  // Open a new chat whose composer holds the picked stories
+  const handleDiscuss = () => {
+    if (selectedClusters.length === 0) return;
+    seedNewChat(buildNewsDiscussionPrompt(selectedClusters));
+    router.push('/');
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 pb-24">
+      <div className="mx-auto max-w-3xl px-4 py-8">
+        <Link href="/" className="inline-flex items-center space-x-1 text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to chat</span>
+        </Link>
+
+        <div className="mt-4 flex items-center gap-3">
+          <Newspaper className="h-7 w-7 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">News briefing</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Pick the stories that matter and discuss them in a new chat
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-6 flex gap-2" role="search">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search a topic, company or market..."
+              aria-label="News topic"
+              className="w-full rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 py-2.5 pl-9 pr-3 text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSearching || !query.trim()}
+            className="rounded-xl bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Search
+          </button>
+        </form>
+
+        <div className="mt-3 flex flex-wrap gap-2">
+          {TOPICS.map(item => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => {
+                setQuery(item);
+                search(item);
+              }}
+              disabled={isSearching}
+              aria-pressed={topic === item}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50 ${
+                topic === item
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {item}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <p role="alert" className="mt-6 flex items-start space-x-2 rounded-lg bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error.message}</span>
+          </p>
+        )}
+        {notice && (
+          <p role="status" className="mt-6 rounded-lg bg-amber-50 dark:bg-amber-900/30 px-3 py-2 text-sm text-amber-800 dark:text-amber-200">
+            {notice}
+          </p>
+        )}
+
+        {isSearching ? (
+          <div className="mt-10 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400" role="status">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading {topic.toLowerCase()}...
+          </div>
+        ) : (
+          <>
+            {clusters.length > 0 && (
+              <p className="mt-6 text-xs text-gray-500 dark:text-gray-400">
+                {clusters.length} {clusters.length === 1 ? 'story' : 'stories'} from {articles.length} articles
+              </p>
+            )}
+            <ul className="mt-2 space-y-3">
+              {clusters.map(cluster => (
+                <NewsClusterCard
+                  key={cluster.id}
+                  cluster={cluster}
+                  isSelected={selectedIds.has(cluster.id)}
+                  onToggle={toggleCluster}
+                />
+              ))}
+            </ul>
+            {clusters.length === 0 && !error && !notice && (
+              <p className="mt-10 text-center text-sm text-gray-500 dark:text-gray-400">
+                No news found for &quot;{topic}&quot;.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Discuss action, kept in reach while scrolling the feed */}
+      {selectedClusters.length > 0 && (
+        <div className="fixed inset-x-0 bottom-0 border-t border-gray-200/60 dark:border-gray-700/60 bg-white/90 dark:bg-gray-900/90 backdrop-blur-xl">
+          <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-3">
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              {selectedClusters.length} {selectedClusters.length === 1 ? 'story' : 'stories'} selected
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setSelectedIds(new Set())}
+                className="rounded-xl px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={handleDiscuss}
+                className="inline-flex items-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+              >
+                <MessageSquare className="h-4 w-4" />
+                Discuss in chat
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
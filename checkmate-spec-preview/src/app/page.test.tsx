@@ -43,11 +43,36 @@ jest.mock('@/hooks/useDarkMode', () => ({
   })
 }));
 
+// Mock the API client so useChat never hits the network
+jest.mock('@/lib/api', () => ({
+  chatAPI: {
+    getModels: jest.fn().mockResolvedValue({ models: [], external_apis: {} }),
+    getConversations: jest.fn().mockResolvedValue([]),
+    getMessages: jest.fn().mockResolvedValue({ messages: [], hasMore: false }),
+    createConversation: jest.fn().mockResolvedValue({ id: 'conv_1', title: 'Hello there', created_at: '2024-01-01T00:00:00Z' }),
+    generateTitle: jest.fn().mockResolvedValue(''),
+    streamChat: jest.fn().mockResolvedValue(undefined)
+  },
+  externalAPI: {}
+}));
+
+// Answer with the deterministic in-browser mock instead of a backend
+jest.mock('@/lib/config', () => ({
+  ...jest.requireActual('@/lib/config'),
+  CHAT_TRANSPORT: 'mock'
+}));
+
 // Mock the magicui components
 jest.mock('@/components/magicui', () => ({
   AnimatedThemeToggler: () => <div data-testid="theme-toggler">Theme Toggler</div>,
   VoiceThemeNotification: () => <div data-testid="voice-notification">Voice Notification</div>,
-  AuroraText: ({ children }: { children: React.ReactNode }) => <div>{children}</div>
+  AuroraText: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+  SearchToolsDropdown: () => <div data-testid="search-tools-dropdown">Search Tools Dropdown</div>
+}));
+
+// Mock the markdown renderer (its remark/rehype plugins ship as ESM only)
+jest.mock('@/components/chat/message-content', () => ({
+  MessageContent: ({ content }: { content: string }) => <div>{content}</div>
 }));
 
 // Mock the AIModelDropdown component
@@ -258,4 +283,16 @@ describe('Home Page - Voice Recognition', () => {
     
     jest.useRealTimers();
   });
-});
\ No newline at end of file
+});
+
+describe('Home Page - Chat', () => {
+  test('streams a reply from the mock transport', async () => {
+    render(<Home />);
+
+    const input = screen.getByPlaceholderText('Ask me anything...');
+    fireEvent.change(input, { target: { value: 'Hello there' } });
+    fireEvent.submit(input.closest('form')!);
+
+    expect(await screen.findByText('This is a mock reply from openai/gpt-oss-120b. You said: "Hello there"')).toBeInTheDocument();
+  });
+});
@@ -1,46 +1,71 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { Send, Sparkles, Globe, TrendingUp, User, Mic, Plus, Settings, MoreHorizontal, Zap, ChevronLeft, ChevronRight } from 'lucide-react';
-import { useDarkMode } from '@/hooks';
-import { AnimatedThemeToggler, VoiceThemeNotification, AuroraText } from "@/components/magicui";
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Send, Sparkles, Globe, TrendingUp, Mic, Plus, Settings, MoreHorizontal, Zap, ChevronLeft, ChevronRight, Pencil, RefreshCw, Newspaper } from 'lucide-react';
+import { useDarkMode, useAuth, useChat, useGuestImport, useOnlineStatus, useOutbox, useSession, useSpeechSynthesis, DELETE_UNDO_MS } from '@/hooks';
+import { AnimatedThemeToggler, VoiceThemeNotification, AuroraText, SearchToolsDropdown } from "@/components/magicui";
 import { AIModelDropdown } from "@/components/magicui/ai-model-dropdown";
-
-interface Message {
-  id: string;
-  content: string;
-  role: 'user' | 'assistant';
-  timestamp: Date;
-  model?: string;
-}
-
-interface AIModel {
-  id: string;
-  name: string;
-  provider: string;
-  description: string;
-  features?: string[];
-  recommended?: boolean;
-}
+import { ConversationList, GuestBanner, MessageActions, MessageContent, OfflineBanner, QueuedMessage, SourcedAnswer, ToolChips, ToolsUsed } from "@/components/chat";
+import { loadDraft, loadLastConversation, saveDraft, saveLastConversation, takeNewChatSeed } from "@/lib/drafts";
+import { getChatTool } from "@/lib/chat-tools";
+import { UserMenu } from "@/components/auth";
 
 export default function Home() {
   const { isDarkMode, toggleDarkMode } = useDarkMode();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { status: authStatus } = useAuth();
+  const isGuest = authStatus === 'guest';
+  const {
+    messages,
+    isLoading,
+    currentResponse,
+    streamingModel,
+    availableModels,
+    selectedModel,
+    setSelectedModel,
+    sendMessage,
+    sendInBackground,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    getBranchInfo,
+    rateMessage,
+    stopGeneration,
+    conversations,
+    activeConversationId,
+    openConversation,
+    loadOlderMessages,
+    hasOlderMessages,
+    isLoadingHistory,
+    loadConversations,
+    isLoadingConversations,
+    renameConversation,
+    pinConversation,
+    archiveConversation,
+    deleteConversation,
+    undoDeleteConversation
+  } = useChat({ guest: isGuest });
+  // The streamed answer is labelled with the model it was requested from
+  const replyModel = streamingModel || selectedModel;
+  const guestImport = useGuestImport(authStatus === 'authenticated');
+  const isOnline = useOnlineStatus();
+  const outbox = useOutbox(activeConversationId);
+  const { take: takeQueued, markSent: markQueuedSent, release: releaseQueued, assignNewChat } = outbox;
+  // Set while a queued message is sent to a chat that is not on screen
+  const [isSendingQueued, setIsSendingQueued] = useState(false);
+  // Set once a queued message failed to send, until the next reconnect or sign-in
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+  const { isSupported: isReadAloudSupported, speakingId, speak, stop: stopSpeaking } = useSpeechSynthesis();
+  const { status: sessionStatus } = useSession();
   const [inputText, setInputText] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isDesktopSidebarCollapsed, setIsDesktopSidebarCollapsed] = useState(false);
-  const [selectedModel, setSelectedModel] = useState('openai/gpt-oss-120b');
   const [showWelcome, setShowWelcome] = useState(true);
-  const [isDropdownOpen, setIsDropdownOpen] = useState(false); // Added for dropdown functionality
-  const [selectedTool, setSelectedTool] = useState<string | null>(null);
-  const [availableModels, setAvailableModels] = useState<AIModel[]>([
-    { id: 'openai/gpt-oss-120b', name: 'GPT-OSS-120B', provider: 'OpenAI', description: 'Open source 120B parameter model' },
-    { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama-4 Maverick 17B', provider: 'Meta', description: '17B parameter model with 128 experts' },
-    { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 Distill Llama 70B', provider: 'DeepSeek', description: 'Distilled version of DeepSeek R1 with 70B parameters' },
-    { id: 'qwen/qwen3-32b', name: 'Qwen3 32B', provider: 'Qwen', description: 'Latest Qwen model with 32B parameters' },
-    { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', provider: 'Moonshot AI', description: 'Kimi K2 instruction-following model' }
-  ]);
+  // Composer tools, sent with every message until removed. null lets the
+  // server pick tools, [] asks for none.
+  const [selectedTools, setSelectedTools] = useState<string[] | null>(null);
   const [lastClickTime, setLastClickTime] = useState<number>(0);
   const [lastClickedPrompt, setLastClickedPrompt] = useState<string>('');
   
@@ -52,54 +77,257 @@ export default function Home() {
     message: string;
     theme: 'dark' | 'light';
     type?: 'info' | 'success' | 'error' | 'warning';
+    action?: { label: string; onClick: () => void };
+    duration?: number;
   }>({ isVisible: false, message: '', theme: 'dark', type: 'info' });
   // Add a ref to track if recognition is currently starting
   const isStartingRef = useRef(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const dropdownRef = useRef<HTMLDivElement>(null); // Added for dropdown click outside detection
-  const plusButtonRef = useRef<HTMLButtonElement>(null); // Added for plus button reference
   const sidebarRef = useRef<HTMLDivElement>(null); // Added for sidebar click outside detection
+  const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll metrics captured before older history is prepended
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // Conversation whose draft the composer holds
+  const draftConversationRef = useRef<string | null>(null);
+  // Set once the last open conversation has been restored after a reload
+  const hasRestoredConversationRef = useRef(false);
+  // Set while the current session expiry has been announced
+  const hasNotifiedExpiryRef = useRef(false);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Keep the reader's place when older messages are inserted above
+  useLayoutEffect(() => {
+    const container = chatContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor || isLoadingHistory) return;
+
+    container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+  }, [messages, isLoadingHistory]);
+
+  // Keep the live partial answer in view while tokens stream in
   useEffect(() => {
+    if (scrollAnchorRef.current) {
+      if (!isLoadingHistory) scrollAnchorRef.current = null;
+      return;
+    }
     scrollToBottom();
-  }, [messages]);
+  }, [messages, currentResponse, isLoadingHistory]);
+
+  // Infinite scroll upward through the conversation's stored history
+  const handleChatScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const container = e.currentTarget;
+    if (container.scrollTop > 80 || !hasOlderMessages || isLoadingHistory) return;
+
+    scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+    loadOlderMessages();
+  };
+
+  const submitMessage = async (content: string) => {
+    if (!content.trim() || isLoading) return;
+
+    // Hide welcome screen after first prompt submission
+    setShowWelcome(false);
+    setInputText('');
+
+    const tools = selectedTools ?? undefined;
+
+    // Offline: keep it in the outbox until the connection returns
+    if (!isOnline) {
+      outbox.enqueue(content, tools);
+      return;
+    }
+
+    // Streams the answer through the configured chat transport; useChat
+    // appends the user message, the final model-stamped answer or an error bubble
+    await sendMessage(content, undefined, tools);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputText.trim() || isLoading) return;
+    await submitMessage(inputText);
+  };
 
-    // Hide welcome screen after first prompt submission
+  const handleNewChat = () => {
+    openConversation(null);
+    setShowWelcome(true);
+    setSelectedTools(null); // Reset selected tools
+    setInputText(''); // Clear input field
+  };
+
+  const handleSelectConversation = (conversationId: string) => {
+    openConversation(conversationId);
     setShowWelcome(false);
+    setIsSidebarOpen(false);
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      content: inputText,
-      role: 'user',
-      timestamp: new Date()
-    };
+  // Delete immediately in the UI, offering an undo while the request is held back
+  const handleDeleteConversation = (conversationId: string) => {
+    const title = conversations.find(conversation => conversation.id === conversationId)?.title;
+    deleteConversation(conversationId);
+    setVoiceThemeNotification({
+      isVisible: true,
+      message: title ? `Deleted "${title}"` : 'Conversation deleted',
+      theme: isDarkMode ? 'dark' : 'light',
+      type: 'info',
+      action: { label: 'Undo', onClick: () => undoDeleteConversation(conversationId) },
+      duration: DELETE_UNDO_MS
+    });
+  };
 
-    setMessages(prev => [...prev, userMessage]);
-    setInputText('');
-    setIsLoading(true);
-
-    // Simulate AI response (replace with actual API call)
-    setTimeout(() => {
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: `I received your message: "${userMessage.content}". This is a mock response. In the full implementation, I would process this through the selected AI model (${selectedModel}) and provide intelligent responses with access to real-time web search and crypto data.`,
-        role: 'assistant',
-        timestamp: new Date(),
-        model: selectedModel
-      };
-      setMessages(prev => [...prev, aiMessage]);
-      setIsLoading(false);
-    }, 1000);
+  // Move guest chats into the account, following the open one to its new id
+  const handleImportGuestChats = async () => {
+    const result = await guestImport.importAll();
+    if (!result) return;
+
+    await loadConversations();
+    const importedId = activeConversationId ? result.idMap[activeConversationId] : undefined;
+    if (importedId) openConversation(importedId);
+
+    const parts = [`Imported ${result.imported === 1 ? '1 chat' : `${result.imported} chats`}`];
+    if (result.duplicates > 0) parts.push(`${result.duplicates} already in your account`);
+    if (result.failed > 0) parts.push(`${result.failed} failed and stayed on this device`);
+    setVoiceThemeNotification({
+      isVisible: true,
+      message: parts.join(', '),
+      theme: isDarkMode ? 'dark' : 'light',
+      type: result.failed > 0 ? 'warning' : 'success'
+    });
+  };
+
+  const conversationActions = {
+    onRename: renameConversation,
+    onTogglePin: pinConversation,
+    onToggleArchive: archiveConversation,
+    onDelete: handleDeleteConversation
+  };
+
+  // Populate the sidebar with the user's conversations
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // Reopen the conversation that was on screen before a reload, unless
+  // another view (e.g. the news feed) asked for a new chat with a prepared
+  // draft. Only on the first render: openConversation changes with every switch.
+  useEffect(() => {
+    if (hasRestoredConversationRef.current) return;
+    hasRestoredConversationRef.current = true;
+
+    const lastConversationId = loadLastConversation();
+    if (takeNewChatSeed()) {
+      inputRef.current?.focus();
+    } else if (lastConversationId) {
+      openConversation(lastConversationId);
+      setShowWelcome(false);
+    }
+  }, [openConversation]);
+
+  useEffect(() => {
+    saveLastConversation(activeConversationId);
+  }, [activeConversationId]);
+
+  // Each conversation keeps its own unsent draft. Restoring has to run
+  // before saving so switching chats never saves one chat's text under
+  // the other's id.
+  useEffect(() => {
+    draftConversationRef.current = activeConversationId;
+    setInputText(loadDraft(activeConversationId));
+  }, [activeConversationId]);
+
+  useEffect(() => {
+    saveDraft(draftConversationRef.current, inputText);
+  }, [inputText]);
+
+  useEffect(() => {
+    setIsQueuePaused(false);
+  }, [isOnline, authStatus]);
+
+  // Once the connection is back, send queued messages one at a time, each
+  // into the chat it was written in: on screen for the open chat, in the
+  // background for the others
+  useEffect(() => {
+    if (!isOnline || isLoading || isSendingQueued || isQueuePaused) return;
+    const next = takeQueued();
+    if (!next) return;
+
+    if (next.conversationId === activeConversationId) {
+      // Now in the thread on screen, where a failed reply can be retried
+      markQueuedSent(next.id);
+      sendMessage(next.content, undefined, next.tools);
+      return;
+    }
+
+    setIsSendingQueued(true);
+    sendInBackground(next.conversationId, next.content, next.tools)
+      .then(({ conversationId, sent }) => {
+        // A new chat is created even when its first message fails; a retry goes there
+        if (conversationId && next.conversationId === null) assignNewChat(conversationId);
+        if (sent) {
+          markQueuedSent(next.id);
+        } else {
+          releaseQueued();
+          setIsQueuePaused(true);
+        }
+      })
+      .finally(() => setIsSendingQueued(false));
+  }, [isOnline, isLoading, isSendingQueued, isQueuePaused, activeConversationId, takeQueued, markQueuedSent, releaseQueued, assignNewChat, sendMessage, sendInBackground]);
+
+  // An expired session no longer redirects; say so (once per expiry) and
+  // leave the draft alone
+  useEffect(() => {
+    if (sessionStatus !== 'expired') {
+      hasNotifiedExpiryRef.current = false;
+      return;
+    }
+    if (hasNotifiedExpiryRef.current) return;
+    hasNotifiedExpiryRef.current = true;
+    setVoiceThemeNotification({
+      isVisible: true,
+      message: 'Your session has expired. Sign in again to keep chatting; your draft is saved.',
+      theme: isDarkMode ? 'dark' : 'light',
+      type: 'warning',
+      duration: 8000
+    });
+  }, [sessionStatus, isDarkMode]);
+
+  const startEditing = (messageId: string, content: string) => {
+    setEditingMessageId(messageId);
+    setEditingText(content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditingText('');
+  };
+
+  // Resend an edited prompt as a new branch of the conversation
+  const submitEdit = async (messageId: string) => {
+    const content = editingText;
+    if (!content.trim() || isLoading) return;
+
+    cancelEditing();
+    await editMessage(messageId, content);
+  };
+
+  // Read a message aloud, or stop if it is already being read. Voice input is
+  // stopped first so the microphone does not pick up the speech.
+  const toggleReadAloud = (messageId: string, text: string) => {
+    if (speakingId === messageId) {
+      stopSpeaking();
+      return;
+    }
+
+    if (isListening) {
+      isStartingRef.current = false;
+      speechRecognitionRef.current?.stop();
+      setIsListening(false);
+    }
+    speak(messageId, text);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -117,21 +345,6 @@ export default function Home() {
     }
   };
 
-  // Close dropdown when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node) &&
-          plusButtonRef.current && !plusButtonRef.current.contains(event.target as Node)) {
-        setIsDropdownOpen(false);
-      }
-    };
-
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => {
-      document.removeEventListener('mousedown', handleClickOutside);
-    };
-  }, []);
-
   // Handle sidebar toggle when clicking on sidebar background
   useEffect(() => {
     const handleSidebarToggle = (event: MouseEvent) => {
@@ -145,27 +358,6 @@ export default function Home() {
     };
   }, []);
 
-  const handleSearchWeb = () => {
-    setInputText('Search the web for latest information');
-    setIsDropdownOpen(false);
-    setSelectedTool('web');
-    inputRef.current?.focus();
-  };
-
-  const handleGetCryptoData = () => {
-    setInputText('Get current cryptocurrency market data');
-    setIsDropdownOpen(false);
-    setSelectedTool('crypto');
-    inputRef.current?.focus();
-  };
-
-  const handleAIChat = () => {
-    setInputText('');
-    setIsDropdownOpen(false);
-    setSelectedTool('ai');
-    inputRef.current?.focus();
-  };
-
   const handlePromptClick = (prompt: string) => {
     const now = Date.now();
     const timeDiff = now - lastClickTime;
@@ -173,12 +365,7 @@ export default function Home() {
     // If the same prompt was clicked within 300ms, treat it as a double-click
     if (prompt === lastClickedPrompt && timeDiff < 300) {
       // Double-click detected - submit the prompt directly
-      setInputText(prompt);
-      // Use setTimeout to ensure state is updated before submitting
-      setTimeout(() => {
-        // Directly call the submit handler with a minimal mock event
-        handleSubmit({ preventDefault: () => {} } as React.FormEvent);
-      }, 0);
+      submitMessage(prompt);
       // Reset click tracking
       setLastClickTime(0);
       setLastClickedPrompt('');
@@ -463,6 +650,9 @@ export default function Home() {
           speechRecognitionRef.current.stop();
         }
         
+        // Don't let read-aloud talk over the microphone
+        stopSpeaking();
+
         // Set the flag to indicate we're starting
         isStartingRef.current = true;
         speechRecognitionRef.current.start();
@@ -557,10 +747,7 @@ export default function Home() {
                       className="flex h-10 w-10 items-center justify-center rounded-2xl bg-gradient-to-r from-blue-600 to-blue-700 dark:from-blue-500 dark:to-blue-600 shadow-md cursor-pointer hover:scale-105 transition-transform duration-200"
                       onClick={(e) => {
                       e.stopPropagation(); // Prevent sidebar toggle when clicking logo
-                      setMessages([]);
-                      setShowWelcome(true);
-                      setSelectedTool(null); // Reset selected tool
-                      setInputText(''); // Clear input field
+                      handleNewChat();
                     }}
                       data-sidebar-element="logo"
                     >
@@ -582,10 +769,7 @@ export default function Home() {
             <div className="p-4 pt-2 pb-2">
               <button className="w-full flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 dark:from-blue-600 dark:to-blue-700 dark:hover:from-blue-600 dark:hover:to-blue-800 text-white rounded-xl py-2 px-3 text-sm font-medium transition-all duration-200 shadow hover:shadow-md transform hover:scale-105" onClick={(e) => {
                 e.stopPropagation();
-                setMessages([]);
-                setShowWelcome(true);
-                setSelectedTool(null); // Reset selected tool
-                setInputText(''); // Clear input field
+                handleNewChat();
               }}>
                 <Plus className="h-5 w-5 flex-shrink-0" />
                 <span>New Chat</span>
@@ -594,43 +778,20 @@ export default function Home() {
 
             {/* Mobile Chat History */}
             <div className="flex-1 overflow-y-auto px-4 pt-2 pb-4">
-              <div className="space-y-2">
-                <button className="w-full h-10 flex items-center space-x-2 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-2 px-3 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40" onClick={(e) => e.stopPropagation()}>
-                  <Globe className="h-4 w-4 text-blue-500 flex-shrink-0" />
-                  <div className="text-left">
-                    <p className="text-sm font-medium truncate">Web search capabilities</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">2 hours ago</p>
-                  </div>
-                </button>
-                <button className="w-full h-10 flex items-center space-x-2 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-2 px-3 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40" onClick={(e) => e.stopPropagation()}>
-                  <TrendingUp className="h-4 w-4 text-green-500 flex-shrink-0" />
-                  <div className="text-left">
-                    <p className="text-sm font-medium truncate">Crypto market analysis</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">Yesterday</p>
-                  </div>
-                </button>
-                <button className="w-full h-10 flex items-center space-x-2 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-2 px-3 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40" onClick={(e) => e.stopPropagation()}>
-                  <Sparkles className="h-4 w-4 text-purple-500 flex-shrink-0" />
-                  <div className="text-left">
-                    <p className="text-sm font-medium truncate">General AI conversation</p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">2 days ago</p>
-                  </div>
-                </button>
-              </div>
+              <ConversationList
+                conversations={conversations}
+                activeConversationId={activeConversationId}
+                onSelect={handleSelectConversation}
+                isLoading={isLoadingConversations}
+                compact
+                {...conversationActions}
+              />
             </div>
 
             {/* Mobile Sidebar Footer */}
             <div className="p-4">
               <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <div className="relative">
-                    <div className="h-8 w-8 bg-gradient-to-r from-blue-500 to-blue-600 dark:from-blue-600 dark:to-blue-700 rounded-full flex items-center justify-center">
-                      <User className="h-5 w-5 text-white mx-auto" />
-                    </div>
-                    <div className="absolute bottom-0 right-0 h-2.5 w-2.5 bg-green-500 dark:bg-green-400 rounded-full border-2 border-white dark:border-gray-900"></div>
-                  </div>
-                  <span className="text-sm font-medium">𝕏</span>
-                </div>
+                <UserMenu variant="compact" />
                 <div className="flex items-center space-x-1">
                 <AnimatedThemeToggler 
                   isDarkMode={isDarkMode}
@@ -683,10 +844,7 @@ export default function Home() {
                   bg-gradient-to-r from-blue-600 to-blue-700 dark:from-blue-500 dark:to-blue-600 shadow-md cursor-pointer hover:scale-105 transition-transform duration-200"
                   onClick={(e) => {
                     e.stopPropagation(); // Prevent sidebar toggle when clicking logo
-                    setMessages([]);
-                    setShowWelcome(true);
-                    setSelectedTool(null); // Reset selected tool
-                    setInputText(''); // Clear input field
+                    handleNewChat();
                   }}
                   data-sidebar-element="logo"
                 >
@@ -705,10 +863,7 @@ export default function Home() {
               title="New Chat"
               onClick={(e) => {
                 e.stopPropagation();
-                setMessages([]);
-                setShowWelcome(true);
-                setSelectedTool(null); // Reset selected tool
-                setInputText(''); // Clear input field
+                handleNewChat();
               }}
               data-sidebar-element="new-chat-button"
             >
@@ -719,10 +874,7 @@ export default function Home() {
               className="w-full flex items-center space-x-3 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 dark:from-blue-600 dark:to-blue-700 dark:hover:from-blue-600 dark:hover:to-blue-800 text-white rounded-xl py-3 px-4 text-sm font-medium transition-all duration-200 shadow hover:shadow-md transform hover:scale-[1.02]"
               onClick={(e) => {
                 e.stopPropagation();
-                setMessages([]);
-                setShowWelcome(true);
-                setSelectedTool(null); // Reset selected tool
-                setInputText(''); // Clear input field
+                handleNewChat();
               }}
               data-sidebar-element="new-chat-button"
             >
@@ -734,88 +886,21 @@ export default function Home() {
 
         {/* Chat History */}
         <div className="flex-1 overflow-y-auto px-4 pt-2 pb-4">
-          {!isDesktopSidebarCollapsed ? (
-            <div className="space-y-2">
-              <button 
-                className="w-full h-12 flex items-center space-x-3 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-3 px-4 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40"
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <Globe className="h-5 w-5 text-blue-500 flex-shrink-0" />
-                <div className="text-left">
-                  <p className="font-medium truncate">Web search capabilities</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">2 hours ago</p>
-                </div>
-              </button>
-              <button 
-                className="w-full h-12 flex items-center space-x-3 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-3 px-4 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40"
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <TrendingUp className="h-5 w-5 text-green-500 flex-shrink-0" />
-                <div className="text-left">
-                  <p className="font-medium truncate">Crypto market analysis</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">Yesterday</p>
-                </div>
-              </button>
-              <button 
-                className="w-full h-12 flex items-center space-x-3 bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 rounded-xl py-3 px-4 text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40"
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <Sparkles className="h-5 w-5 text-purple-500 flex-shrink-0" />
-                <div className="text-left">
-                  <p className="font-medium truncate">General AI conversation</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">2 days ago</p>
-                </div>
-              </button>
-            </div>
-          ) : (
-            <div className="space-y-3 flex flex-col items-center justify-center w-full">
-              <button 
-                className="w-10 h-10 rounded-xl bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 flex items-center justify-center shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40 transition-all duration-200 transform hover:scale-105"
-                title="Web search capabilities" 
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <Globe className="h-5 w-5 text-blue-500 mx-auto" />
-              </button>
-              <button 
-                className="w-10 h-10 rounded-xl bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 flex items-center justify-center shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40 transition-all duration-200 transform hover:scale-105"
-                title="Crypto market analysis" 
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <TrendingUp className="h-5 w-5 text-green-500 mx-auto" />
-              </button>
-              <button 
-                className="w-10 h-10 rounded-xl bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 flex items-center justify-center shadow-sm hover:shadow border border-gray-200/40 dark:border-gray-700/40 transition-all duration-200 transform hover:scale-105"
-                title="General AI conversation" 
-                onClick={(e) => e.stopPropagation()}
-                data-sidebar-element="chat-history-item"
-              >
-                <Sparkles className="h-5 w-5 text-purple-500 mx-auto" />
-              </button>
-            </div>
-          )}
+          <ConversationList
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelect={handleSelectConversation}
+            isCollapsed={isDesktopSidebarCollapsed}
+            isLoading={isLoadingConversations}
+            {...conversationActions}
+          />
         </div>
 
         {/* Sidebar Footer */}
         <div className="p-4">
           {!isDesktopSidebarCollapsed ? (
             <div className="flex items-center justify-between">
-              <div className="flex items-center space-x-3">
-                <div className="relative">
-                  <div className="h-9 w-9 bg-gradient-to-r from-blue-500 to-blue-600 dark:from-blue-600 dark:to-blue-700 rounded-full flex items-center justify-center">
-                    <User className="h-6 w-6 text-white mx-auto" />
-                  </div>
-                  <div className="absolute bottom-0 right-0 h-3 w-3 bg-green-500 dark:bg-green-400 rounded-full border-2 border-white dark:border-gray-900"></div>
-                </div>
-                <div>
-                  <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">𝕏</p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">Online</p>
-                </div>
-              </div>
+              <UserMenu />
               <div className="flex items-center space-x-1">
                 <button 
                   className="w-10 h-10 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800/60 transition-colors flex items-center justify-center" // Close sidebar toggle button
@@ -833,12 +918,7 @@ export default function Home() {
             </div>
           ) : (
             <div className="flex flex-col items-center space-y-3">
-              <div className="relative" title="𝕏">
-                <div className="h-9 w-9 bg-gradient-to-r from-blue-500 to-blue-600 dark:from-blue-600 dark:to-blue-700 rounded-full flex items-center justify-center">
-                  <User className="h-6 w-6 text-white mx-auto" />
-                </div>
-                <div className="absolute bottom-0 right-0 h-3 w-3 bg-green-500 dark:bg-green-400 rounded-full border-2 border-white dark:border-gray-900"></div>
-              </div>
+              <UserMenu variant="collapsed" />
               <div className="flex flex-col items-center space-y-1">
                 <button 
                   className="w-10 h-10 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800/60 transition-colors flex items-center justify-center" // Open sidebar toggle button
@@ -881,6 +961,14 @@ export default function Home() {
               </div>
               
               <div className="flex items-center space-x-2">
+                <Link
+                  href="/news"
+                  className="p-2 rounded-xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/40 dark:border-gray-700/40 hover:bg-white/90 dark:hover:bg-gray-700/90 transition-all duration-200 shadow hover:shadow-md flex items-center justify-center text-gray-700 dark:text-gray-300"
+                  title="News briefing"
+                  aria-label="News briefing"
+                >
+                  <Newspaper className="h-5 w-5" />
+                </Link>
                 <AIModelDropdown 
                   selectedModel={selectedModel}
                   onModelSelect={setSelectedModel}
@@ -896,18 +984,31 @@ export default function Home() {
         </header>
 
         {/* Chat Container */}
-        <div className="flex-1 overflow-y-auto relative">
+        <div className="flex-1 overflow-y-auto relative" ref={chatContainerRef} onScroll={handleChatScroll}>
           {/* Voice Theme Notification */}
           <VoiceThemeNotification
             message={voiceThemeNotification.message}
             theme={voiceThemeNotification.theme}
             type={voiceThemeNotification.type}
             isVisible={voiceThemeNotification.isVisible}
+            action={voiceThemeNotification.action}
+            duration={voiceThemeNotification.duration}
             onClose={() => setVoiceThemeNotification(prev => ({ ...prev, isVisible: false }))}
           />
           
           {/* Notification Toast */}
           {/* Old notification system removed, using VoiceThemeNotification instead */}
+
+          {isGuest && <GuestBanner mode="guest" />}
+          {guestImport.pendingCount > 0 && (
+            <GuestBanner
+              mode="import"
+              count={guestImport.pendingCount}
+              isImporting={guestImport.isImporting}
+              onImport={handleImportGuestChats}
+              onDismiss={guestImport.dismiss}
+            />
+          )}
           
           {showWelcome ? (
             /* Welcome Screen */
@@ -933,11 +1034,11 @@ export default function Home() {
                     <p className="text-sm text-gray-600 dark:text-gray-400 text-center">Get real-time information from across the internet</p>
                   </div>
                   
-                  <div className="p-6 rounded-2xl bg-white/80 dark:bg-gray-800/40 border border-gray-200/40 dark:border-gray-700/40 cursor-pointer hover:scale-[1.02] transition-all duration-200 group hover:shadow-md flex flex-col items-center">
+                  <Link href="/crypto" className="p-6 rounded-2xl bg-white/80 dark:bg-gray-800/40 border border-gray-200/40 dark:border-gray-700/40 cursor-pointer hover:scale-[1.02] transition-all duration-200 group hover:shadow-md flex flex-col items-center">
                     <TrendingUp className="h-8 w-8 text-green-500 mb-3 group-hover:scale-110 group-hover:rotate-6 transition-all duration-200 mx-auto" />
                     <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-2 group-hover:text-gray-700 dark:group-hover:text-gray-300 transition-colors text-center">Crypto Data</h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400 text-center">Live cryptocurrency prices and market analysis</p>
-                  </div>
+                  </Link>
                   
                   <div className="p-6 rounded-2xl bg-white/80 dark:bg-gray-800/40 border border-gray-200/40 dark:border-gray-700/40 cursor-pointer hover:scale-[1.02] transition-all duration-200 group hover:shadow-md flex flex-col items-center">
                     <Sparkles className="h-8 w-8 text-purple-500 mb-3 group-hover:scale-110 group-hover:rotate-6 transition-all duration-200 mx-auto" />
@@ -972,17 +1073,70 @@ export default function Home() {
             /* Chat Messages */
             <div className="p-6">
               <div className="max-w-3xl mx-auto space-y-6">
-                {messages.map((message) => (
-                  <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className="flex max-w-full space-x-4">
+                {isLoadingHistory && (
+                  <div className="flex justify-center text-xs text-gray-500 dark:text-gray-400">
+                    Loading earlier messages…
+                  </div>
+                )}
+                {messages.map((message) => {
+                  const branch = getBranchInfo(message.id);
+                  const isEditing = editingMessageId === message.id;
+
+                  return (
+                  <div key={message.id} className={`group flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`flex flex-col max-w-full ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
                       {/* Message Content */}
-                      <div className="flex-1">
+                      <div className={isEditing ? 'w-full min-w-[18rem]' : 'flex-1'}>
                         <div className={`rounded-2xl px-6 py-4 shadow-sm border transition-all duration-200 ${
                           message.role === 'user'
                             ? 'bg-gradient-to-r from-blue-600 to-blue-700 dark:from-blue-500 dark:to-blue-600 text-white border-blue-500/20'
-                            : 'bg-white dark:bg-gray-800/60 text-gray-900 dark:text-gray-100 border-gray-200/40 dark:border-gray-700/40'
+                            : message.isError
+                              ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-200/60 dark:border-red-800/40'
+                              : 'bg-white dark:bg-gray-800/60 text-gray-900 dark:text-gray-100 border-gray-200/40 dark:border-gray-700/40'
                         }`}>
-                          <p className="text-[15px] leading-relaxed">{message.content}</p>
+                          {isEditing ? (
+                            <div className="flex flex-col space-y-2">
+                              <textarea
+                                value={editingText}
+                                onChange={(e) => setEditingText(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Escape') {
+                                    cancelEditing();
+                                  } else if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitEdit(message.id);
+                                  }
+                                }}
+                                className="w-full resize-none bg-transparent text-[15px] leading-relaxed focus:outline-none"
+                                rows={3}
+                                autoFocus
+                                aria-label="Edit message"
+                              />
+                              <div className="flex justify-end space-x-2">
+                                <button
+                                  type="button"
+                                  onClick={cancelEditing}
+                                  className="px-3 py-1 rounded-lg text-xs font-medium bg-white/20 hover:bg-white/30 transition-colors"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => submitEdit(message.id)}
+                                  disabled={!editingText.trim() || isLoading}
+                                  className="px-3 py-1 rounded-lg text-xs font-medium bg-white text-blue-700 hover:bg-blue-50 disabled:opacity-50 transition-colors"
+                                >
+                                  Send
+                                </button>
+                              </div>
+                            </div>
+                          ) : message.role === 'assistant' && !message.isError && message.sources?.length ? (
+                            <SourcedAnswer messageId={message.id} content={message.content} sources={message.sources} />
+                          ) : message.role === 'assistant' && !message.isError ? (
+                            <MessageContent content={message.content} />
+                          ) : (
+                            <p className="text-[15px] leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                          )}
                           {message.role === 'assistant' && message.model && (
                             <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700/50">
                               <div className="flex items-center justify-between">
@@ -990,17 +1144,114 @@ export default function Home() {
                                   <Zap className="h-3 w-3 mr-1" />
                                   {availableModels.find(m => m.id === message.model)?.name || message.model}
                                 </span>
+                                {message.stopped && (
+                                  <span className="text-xs text-amber-600 dark:text-amber-400">Stopped</span>
+                                )}
                               </div>
+                              {message.toolsUsed && message.toolsUsed.length > 0 && (
+                                <div className="mt-2">
+                                  <ToolsUsed tools={message.toolsUsed} />
+                                </div>
+                              )}
                             </div>
                           )}
                         </div>
                       </div>
+
+                      {/* Branch switcher, edit and regenerate controls */}
+                      {!isEditing && (
+                        <div className="mt-1 flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+                          {branch.count > 1 && (
+                            <div className="flex items-center">
+                              <button
+                                type="button"
+                                onClick={() => switchBranch(message.id, -1)}
+                                disabled={isLoading || branch.index === 0}
+                                className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label="Previous version"
+                              >
+                                <ChevronLeft className="h-3.5 w-3.5" />
+                              </button>
+                              <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                              <button
+                                type="button"
+                                onClick={() => switchBranch(message.id, 1)}
+                                disabled={isLoading || branch.index === branch.count - 1}
+                                className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                                aria-label="Next version"
+                              >
+                                <ChevronRight className="h-3.5 w-3.5" />
+                              </button>
+                            </div>
+                          )}
+                          <div className={`flex items-center transition-opacity ${
+                            message.feedback || speakingId === message.id ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'
+                          }`}>
+                            <MessageActions
+                              content={message.content}
+                              feedback={message.feedback}
+                              onFeedback={message.role === 'assistant' && !message.isError
+                                ? rating => rateMessage(message.id, rating)
+                                : undefined}
+                              isSpeaking={speakingId === message.id}
+                              onToggleSpeak={message.role === 'assistant' && isReadAloudSupported
+                                ? text => toggleReadAloud(message.id, text)
+                                : undefined}
+                            >
+                              {message.role === 'user' ? (
+                                <button
+                                  type="button"
+                                  onClick={() => startEditing(message.id, message.content)}
+                                  disabled={isLoading}
+                                  className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                                  title="Edit and resend"
+                                  aria-label="Edit and resend"
+                                >
+                                  <Pencil className="h-3.5 w-3.5" />
+                                </button>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => regenerateMessage(message.id)}
+                                  disabled={isLoading}
+                                  className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                                  title={`Regenerate with ${availableModels.find(m => m.id === selectedModel)?.name || selectedModel}`}
+                                  aria-label="Regenerate response"
+                                >
+                                  <RefreshCw className="h-3.5 w-3.5" />
+                                </button>
+                              )}
+                            </MessageActions>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
-                ))}
+                  );
+                })}
                 
+                {/* Live partial answer while tokens stream in */}
+                {isLoading && currentResponse && (
+                  <div className="flex justify-start">
+                    <div className="flex max-w-full space-x-4">
+                      <div className="flex-1">
+                        <div className="rounded-2xl px-6 py-4 shadow-sm border transition-all duration-200 bg-white dark:bg-gray-800/60 text-gray-900 dark:text-gray-100 border-gray-200/40 dark:border-gray-700/40">
+                          <MessageContent content={currentResponse} isStreaming />
+                          <span className="inline-block w-2 h-4 mt-1 bg-blue-500 animate-pulse"></span>
+                          <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700/50">
+                            <span className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+                              <Zap className="h-3 w-3 mr-1" />
+                              {availableModels.find(m => m.id === replyModel)?.name || replyModel}
+                            </span>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Loading indicator */}
-                {isLoading && (
+                {isLoading && !currentResponse && (
                   <div className="flex justify-start">
                     <div className="flex space-x-4">
                       <div className="bg-transparent rounded-2xl px-6 py-4 border border-gray-900/20 dark:border-gray-100/20">
@@ -1013,6 +1264,11 @@ export default function Home() {
                     </div>
                   </div>
                 )}
+
+                {/* Messages waiting in the offline outbox */}
+                {outbox.queued.map(item => (
+                  <QueuedMessage key={item.id} item={item} onRemove={outbox.remove} />
+                ))}
               </div>
               
               <div ref={messagesEndRef} />
@@ -1022,80 +1278,39 @@ export default function Home() {
 
         {/* Enhanced Input Area - Premium UX - Compact */}
         <div className="relative">
-          {/* Dropdown menu for search options - positioned above the plus button */}
-          {isDropdownOpen && (
-            <div 
-              className="absolute bottom-full mb-2 w-48 rounded-2xl shadow-lg border border-gray-200/40 dark:border-gray-700/40 py-2 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl animate-fadeInUp"
-              style={{ 
-                left: '0.5rem',
-                bottom: 'calc(100% + 0.5rem)',
-                animationDuration: '0.3s'
-              }}
-              ref={dropdownRef}
-            >
-              <div className="px-4 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                Select Tools
-              </div>
-              <button
-                type="button"
-                className="w-full px-4 py-3 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-blue-500/10 dark:hover:bg-blue-500/10 flex items-center transition-all duration-200 group rounded-xl mx-1"
-                onClick={handleSearchWeb}
-              >
-                <Globe className="h-5 w-5 mr-3 text-blue-500 group-hover:scale-110 transition-transform duration-200" />
-                <span className="group-hover:translate-x-1 transition-transform duration-200 font-medium">Search web</span>
-              </button>
-              <button
-                type="button"
-                className="w-full px-4 py-3 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-green-500/10 dark:hover:bg-green-500/10 flex items-center transition-all duration-200 group rounded-xl mx-1"
-                onClick={handleGetCryptoData}
-              >
-                <TrendingUp className="h-5 w-5 mr-3 text-green-500 group-hover:scale-110 transition-transform duration-200" />
-                <span className="group-hover:translate-x-1 transition-transform duration-200 font-medium">Get crypto data</span>
-              </button>
-              <button
-                type="button"
-                className="w-full px-4 py-3 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-purple-500/10 dark:hover:bg-purple-500/10 flex items-center transition-all duration-200 group rounded-xl mx-1"
-                onClick={handleAIChat}
-              >
-                <Sparkles className="h-5 w-5 mr-3 text-purple-500 group-hover:scale-110 transition-transform duration-200" />
-                <span className="group-hover:translate-x-1 transition-transform duration-200 font-medium">AI Chat</span>
-              </button>
-            </div>
-          )}
           {/* Content */}
           <div className="relative z-10 p-3">
             <div className="max-w-3xl mx-auto">
+              {!isOnline && <OfflineBanner queuedCount={outbox.totalCount} />}
               <form onSubmit={handleSubmit} className="relative">
                 {/* Enhanced Input Container with floating effect - Removed outer container */}
                 <div className="flex items-end space-x-2 bg-transparent rounded-3xl p-2">
                   {/* Enhanced Text input */}
                   <div className="flex-1 relative">
-                    <div className="relative bg-transparent rounded-3xl overflow-hidden border border-gray-900/20 dark:border-gray-100/20">
-                      {/* Plus button with dropdown for search web and crypto data - moved inside the input container */}
-                      <div className="absolute left-2 bottom-2 flex-shrink-0 w-10 h-10">
-                        <button
-                          type="button"
-                          className={`flex-shrink-0 w-10 h-10 flex items-center justify-center rounded-full transition-all duration-200 ease-in-out ${isDropdownOpen ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
-                          onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                          style={{
-                            transform: isDropdownOpen ? 'rotate(45deg)' : 'rotate(0deg)',
-                            color: selectedTool === 'web' ? '#3b82f6' : 
-                                   selectedTool === 'crypto' ? '#10b981' : 
-                                   selectedTool === 'ai' ? '#8b5cf6' : 
-                                   isDarkMode ? '#9ca3af' : '#6b7280'
-                          }}
-                          ref={plusButtonRef}
-                        >
-                          <Plus className="h-5 w-5" />
-                        </button>
+                    <div className="relative bg-transparent rounded-3xl border border-gray-900/20 dark:border-gray-100/20">
+                      {/* Tools picker, rendered from the chat tool registry */}
+                      <div className="absolute left-2 bottom-2 flex-shrink-0 w-10 h-10 z-20">
+                        <SearchToolsDropdown
+                          align="left"
+                          selectedTools={selectedTools}
+                          onChange={setSelectedTools}
+                          context={{ isOnline, isGuest }}
+                          isDarkMode={isDarkMode}
+                        />
                       </div>
-                      
+
+                      {selectedTools && (
+                        <div className="px-4 pt-2">
+                          <ToolChips selection={selectedTools} onChange={setSelectedTools} />
+                        </div>
+                      )}
+
                       <textarea
                         ref={inputRef}
                         value={inputText}
                         onChange={(e) => setInputText(e.target.value)}
                         onKeyDown={handleKeyDown}
-                        placeholder="Ask me anything..."
+                        placeholder={(selectedTools?.length === 1 && getChatTool(selectedTools[0])?.placeholder) || "Ask me anything..."}
                         className="w-full resize-none bg-transparent px-14 py-3 pr-14 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none text-sm leading-relaxed font-medium"
                         rows={1}
                         style={{ minHeight: '40px', maxHeight: '120px' }}
@@ -1123,7 +1338,21 @@ export default function Home() {
                           )}
                         </button>
                         
-                        {/* Enhanced Send button with upward arrow icon */}
+                        {/* Stop button replaces the send arrow while an answer is streaming */}
+                        {isLoading ? (
+                          <button
+                            type="button"
+                            onClick={stopGeneration}
+                            className="flex-shrink-0 w-9 h-9 flex items-center justify-center rounded-full transition-all duration-200 shadow hover:shadow-md border border-gray-900/20 dark:border-gray-100/20 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900"
+                            title="Stop generating"
+                            aria-label="Stop generating"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor" className="h-4 w-4 mx-auto">
+                              <rect x="6" y="6" width="12" height="12" rx="2" />
+                            </svg>
+                          </button>
+                        ) : (
+                        /* Enhanced Send button with upward arrow icon */
                         <button
                           type="submit"
                           disabled={!inputText.trim() || isLoading}
@@ -1151,6 +1380,7 @@ export default function Home() {
                             <path d="M8.99992 16V6.41407L5.70696 9.70704C5.31643 10.0976 4.68342 10.0976 4.29289 9.70704C3.90237 9.31652 3.90237 8.6835 4.29289 8.29298L9.29289 3.29298L9.36907 3.22462C9.76184 2.90427 10.3408 2.92686 10.707 3.29298L15.707 8.29298L15.7753 8.36915C16.0957 8.76192 16.0731 9.34092 15.707 9.70704C15.3408 10.0732 14.7618 10.0958 14.3691 9.7754L14.2929 9.70704L10.9999 6.41407V16C10.9999 16.5523 10.5522 17 9.99992 17C9.44764 17 8.99992 16.5523 8.99992 16Z" fill="currentColor" />
                           </svg>
                         </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, type ReactNode } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { AuthProvider, useAuth } from '@/hooks';
+import { safeRedirectPath } from '@/lib/validation';
+
+// Routes that need a signed-in user
+const PROTECTED_ROUTES = ['/', '/account'];
+// Routes a signed-in user has no reason to see
+const SIGNED_OUT_ROUTES = ['/login', '/register'];
+// Protected routes open to guest mode
+const GUEST_MODE_ROUTES = ['/'];
+
+// Sends signed-out users (and guests outside the chat) to /login and
+// signed-in users away from it. An expired session stays on the page so the
+// draft survives; the chat shows a notice instead.
+const AuthGate = ({ children }: { children: ReactNode }) => {
+  const { status } = useAuth();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const isProtected = PROTECTED_ROUTES.includes(pathname) && !(status === 'guest' && GUEST_MODE_ROUTES.includes(pathname));
+  const isSignedOutRoute = SIGNED_OUT_ROUTES.includes(pathname);
+
+  useEffect(() => {
+    if ((status === 'unauthenticated' || status === 'guest') && isProtected) {
+      router.replace(pathname === '/' ? '/login' : `/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [status, isProtected, pathname, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated' && isSignedOutRoute) {
+      router.replace(safeRedirectPath(new URLSearchParams(window.location.search).get('next')));
+    }
+  }, [status, isSignedOutRoute, router]);
+
+  if (isProtected && (status === 'loading' || status === 'unauthenticated' || status === 'guest')) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white dark:bg-gray-900" aria-busy="true">
+        <div className="h-8 w-8 rounded-full border-2 border-blue-500 border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export function Providers({ children }: { children: ReactNode }) {
+  return (
+    <AuthProvider>
+      <AuthGate>{children}</AuthGate>
+    </AuthProvider>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Suspense, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AuthCard, FormField, submitButtonClass } from '@/components/auth';
+import { useAuth } from '@/hooks';
+import { ValidationError } from '@/lib/api';
+import { MIN_PASSWORD_LENGTH, safeRedirectPath, validateRegistration, type FieldErrors } from '@/lib/validation';
+
+type Field = 'email' | 'username' | 'password' | 'confirmPassword';
+
+function RegisterForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { register } = useAuth();
+  const [values, setValues] = useState<Record<Field, string>>({
+    email: '',
+    username: '',
+    password: '',
+    confirmPassword: ''
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors<Field>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const next = safeRedirectPath(searchParams.get('next'));
+
+  const setValue = (field: Field) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setValues(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const errors = validateRegistration(values);
+    setFieldErrors(errors);
+    setError(null);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await register(values.email.trim(), values.username.trim(), values.password);
+      router.replace(next);
+    } catch (error) {
+      // Field errors from the server (422) come back as issues
+      const issues = error instanceof ValidationError ? error.issues : [];
+      setError(issues.length > 0 ? issues.join('; ') : (error as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title="Create an account"
+      subtitle="Each person on a shared machine gets their own chats"
+      error={error}
+      footer={
+        <>
+          Already have an account?{' '}
+          <Link href={`/login${next !== '/' ? `?next=${encodeURIComponent(next)}` : ''}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            Sign in
+          </Link>
+        </>
+      }
+    >
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        <FormField
+          id="email"
+          label="Email"
+          type="email"
+          autoComplete="email"
+          autoFocus
+          value={values.email}
+          onChange={setValue('email')}
+          error={fieldErrors.email}
+        />
+        <FormField
+          id="username"
+          label="Username"
+          autoComplete="username"
+          value={values.username}
+          onChange={setValue('username')}
+          error={fieldErrors.username}
+        />
+        <FormField
+          id="password"
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+          value={values.password}
+          onChange={setValue('password')}
+          error={fieldErrors.password}
+        />
+        <FormField
+          id="confirmPassword"
+          label="Confirm password"
+          type="password"
+          autoComplete="new-password"
+          value={values.confirmPassword}
+          onChange={setValue('confirmPassword')}
+          error={fieldErrors.confirmPassword}
+        />
+        <button type="submit" disabled={isSubmitting} className={submitButtonClass}>
+          {isSubmitting ? 'Creating account…' : 'Create account'}
+        </button>
+      </form>
+    </AuthCard>
+  );
+}
+
+export default function RegisterPage() {
+  // useSearchParams needs a Suspense boundary for static rendering
+  return (
+    <Suspense>
+      <RegisterForm />
+    </Suspense>
+  );
+}
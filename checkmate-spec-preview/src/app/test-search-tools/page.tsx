@@ -6,12 +6,13 @@ import { useDarkMode } from '@/hooks';
 
 export default function TestSearchTools() {
   const { isDarkMode } = useDarkMode();
-  const [selectedTool, setSelectedTool] = useState<string | null>(null);
+  const [selectedTools, setSelectedTools] = useState<string[] | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
 
-  const handleToolSelect = (toolId: string) => {
-    setSelectedTool(toolId);
-    setLogs(prev => [...prev, `Selected tool: ${toolId} at ${new Date().toLocaleTimeString()}`]);
+  const handleToolsChange = (selection: string[] | null) => {
+    setSelectedTools(selection);
+    const description = selection === null ? 'server picks' : selection.join(', ') || 'no tools';
+    setLogs(prev => [...prev, `Selected tools: ${description} at ${new Date().toLocaleTimeString()}`]);
   };
 
   return (
@@ -23,15 +24,16 @@ export default function TestSearchTools() {
           <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-gray-200">Component Demo</h2>
           <div className="flex justify-center py-8">
             <SearchToolsDropdown 
-              onToolSelect={handleToolSelect}
-              selectedTool={selectedTool}
+              selectedTools={selectedTools}
+              onChange={handleToolsChange}
+              context={{ isOnline: true, isGuest: false }}
               isDarkMode={isDarkMode}
             />
           </div>
           
           <div className="mt-6 p-4 bg-gray-100 dark:bg-gray-700 rounded-lg">
             <p className="text-gray-700 dark:text-gray-300">
-              <span className="font-medium">Selected Tool:</span> {selectedTool || 'None'}
+              <span className="font-medium">Selected Tools:</span> {selectedTools === null ? 'Server picks' : selectedTools.join(', ') || 'None'}
             </p>
           </div>
         </div>
@@ -0,0 +1,79 @@
+"use client";
+
+import type { InputHTMLAttributes, ReactNode } from "react";
+import { AlertCircle } from "lucide-react";
+import { useDarkMode } from "@/hooks";
+
+type CardProps = {
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  notice?: string | null;
+  footer?: ReactNode;
+  children: ReactNode;
+};
+
+// Centered card shared by the login, registration and account pages
+export const AuthCard = ({ title, subtitle, error, notice, footer, children }: CardProps) => {
+  // Applies the saved theme; these pages render outside the chat screen
+  useDarkMode();
+
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4 py-12 bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="w-full max-w-sm">
+        <div className="rounded-2xl bg-white/90 dark:bg-gray-800/90 backdrop-blur-xl border border-gray-200/40 dark:border-gray-700/40 shadow-xl p-6">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{title}</h1>
+          {subtitle && <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{subtitle}</p>}
+
+          {notice && (
+            <p role="status" className="mt-4 rounded-lg bg-amber-50 dark:bg-amber-900/30 px-3 py-2 text-sm text-amber-800 dark:text-amber-200">
+              {notice}
+            </p>
+          )}
+          {error && (
+            <p role="alert" className="mt-4 flex items-start space-x-2 rounded-lg bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </p>
+          )}
+
+          <div className="mt-6">{children}</div>
+        </div>
+        {footer && <div className="mt-4 text-center text-sm text-gray-600 dark:text-gray-400">{footer}</div>}
+      </div>
+    </main>
+  );
+};
+
+type FieldProps = InputHTMLAttributes<HTMLInputElement> & {
+  id: string;
+  label: string;
+  error?: string;
+};
+
+// Labelled input with its validation message wired up for screen readers
+export const FormField = ({ id, label, error, className = "", ...inputProps }: FieldProps) => (
+  <div className="space-y-1">
+    <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+      {label}
+    </label>
+    <input
+      id={id}
+      name={id}
+      aria-invalid={Boolean(error)}
+      aria-describedby={error ? `${id}-error` : undefined}
+      className={`w-full rounded-lg border bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+        error ? "border-red-400 dark:border-red-500" : "border-gray-300 dark:border-gray-600"
+      } ${className}`}
+      {...inputProps}
+    />
+    {error && (
+      <p id={`${id}-error`} className="text-xs text-red-600 dark:text-red-400">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+export const submitButtonClass =
+  "w-full rounded-lg bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-60 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2";
@@ -0,0 +1,2 @@
+export { AuthCard, FormField, submitButtonClass } from './auth-card';
+export { UserMenu } from './user-menu';
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { LogIn, LogOut, RefreshCw, User, UserCog, UserPlus } from "lucide-react";
+import { useAuth } from "@/hooks";
+
+type Props = {
+  // "compact" is the mobile sidebar, "collapsed" the icon-only desktop rail
+  variant?: "full" | "compact" | "collapsed";
+};
+
+const menuItemClass =
+  "w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100/80 dark:hover:bg-gray-700/50 flex items-center space-x-2 transition-colors";
+
+// Avatar and name of the signed-in user; opens a menu with account and sign-out
+export const UserMenu = ({ variant = "full" }: Props) => {
+  const { user, status, logout, refreshUser } = useAuth();
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const isOnline = status === "authenticated";
+  // Signed in, but the account could not be loaded (e.g. the server is down)
+  const isAccountMissing = isOnline && !user;
+  const name = user?.username ?? (status === "loading" ? "…" : isAccountMissing ? "Signed in" : "Guest");
+  const statusLabel =
+    status === "expired" ? "Session expired"
+      : status === "guest" ? "Guest · chats stay on this device"
+        : user ? user.email
+          : isAccountMissing ? "Account details unavailable" : "Signed out";
+
+  // Close the menu when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsMenuOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isMenuOpen]);
+
+  const avatarSize = variant === "compact" ? "h-8 w-8" : "h-9 w-9";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsMenuOpen(open => !open);
+        }}
+        className="flex items-center space-x-3 rounded-lg p-1 -m-1 hover:bg-gray-100 dark:hover:bg-gray-800/60 transition-colors text-left"
+        title={name}
+        aria-label={`Account menu for ${name}`}
+        aria-haspopup="menu"
+        aria-expanded={isMenuOpen}
+      >
+        <span className="relative flex-shrink-0">
+          <span className={`${avatarSize} bg-gradient-to-r from-blue-500 to-blue-600 dark:from-blue-600 dark:to-blue-700 rounded-full flex items-center justify-center text-sm font-semibold text-white`}>
+            {user ? user.username.charAt(0).toUpperCase() : <User className="h-5 w-5 text-white" />}
+          </span>
+          <span
+            className={`absolute bottom-0 right-0 h-3 w-3 rounded-full border-2 border-white dark:border-gray-900 ${
+              isOnline ? "bg-green-500 dark:bg-green-400" : "bg-gray-400 dark:bg-gray-500"
+            }`}
+          ></span>
+        </span>
+        {variant === "compact" && <span className="text-sm font-medium truncate max-w-[8rem]">{name}</span>}
+        {variant === "full" && (
+          <span className="min-w-0">
+            <span className="block text-sm font-semibold text-gray-800 dark:text-gray-200 truncate max-w-[9rem]">{name}</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400 truncate max-w-[9rem]">{statusLabel}</span>
+          </span>
+        )}
+      </button>
+
+      {isMenuOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 bottom-full mb-2 z-30 w-48 rounded-xl bg-white/95 dark:bg-gray-800/95 backdrop-blur-xl border border-gray-200/40 dark:border-gray-700/40 shadow-lg py-1 overflow-hidden"
+        >
+          {user || isAccountMissing ? (
+            <>
+              {user ? (
+                <>
+                  <div className="px-3 py-2 border-b border-gray-200/60 dark:border-gray-700/60">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{user.username}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{user.email}</p>
+                  </div>
+                  <Link href="/account" role="menuitem" className={menuItemClass} onClick={() => setIsMenuOpen(false)}>
+                    <UserCog className="h-4 w-4" />
+                    <span>Account</span>
+                  </Link>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  role="menuitem"
+                  className={menuItemClass}
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    refreshUser();
+                  }}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                  <span>Load account</span>
+                </button>
+              )}
+              <button
+                type="button"
+                role="menuitem"
+                className={`${menuItemClass} text-red-600 dark:text-red-400`}
+                onClick={() => {
+                  setIsMenuOpen(false);
+                  logout();
+                }}
+              >
+                <LogOut className="h-4 w-4" />
+                <span>Sign out</span>
+              </button>
+            </>
+          ) : (
+            <>
+              <Link href="/login" role="menuitem" className={menuItemClass} onClick={() => setIsMenuOpen(false)}>
+                <LogIn className="h-4 w-4" />
+                <span>Sign in</span>
+              </Link>
+              {status === "guest" && (
+                <Link href="/register" role="menuitem" className={menuItemClass} onClick={() => setIsMenuOpen(false)}>
+                  <UserPlus className="h-4 w-4" />
+                  <span>Create account</span>
+                </Link>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Archive, ArchiveRestore, MessageSquare, MoreHorizontal, Pencil, Pin, PinOff, Search, Trash2 } from "lucide-react";
+import type { Conversation } from "@/lib/api";
+import { formatRelativeTime } from "@/lib/utils";
+
+type Props = {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (conversationId: string) => void;
+  isCollapsed?: boolean;
+  isLoading?: boolean;
+  compact?: boolean;
+  onRename?: (conversationId: string, title: string) => void;
+  onTogglePin?: (conversationId: string, pinned: boolean) => void;
+  onToggleArchive?: (conversationId: string, archived: boolean) => void;
+  onDelete?: (conversationId: string) => void;
+};
+
+type ItemProps = Omit<Props, "conversations" | "activeConversationId" | "isCollapsed" | "isLoading"> & {
+  conversation: Conversation;
+  isActive: boolean;
+};
+
+export type ConversationGroup = {
+  label: string;
+  conversations: Conversation[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const lastActivity = (conversation: Conversation) =>
+  new Date(conversation.updated_at ?? conversation.created_at);
+
+// Bucket conversations into Today / Yesterday / Previous 7 days / Older,
+// newest first, dropping empty groups
+export const groupConversationsByDate = (
+  conversations: Conversation[],
+  now: Date = new Date()
+): ConversationGroup[] => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const groups: ConversationGroup[] = [
+    { label: "Today", conversations: [] },
+    { label: "Yesterday", conversations: [] },
+    { label: "Previous 7 days", conversations: [] },
+    { label: "Older", conversations: [] },
+  ];
+
+  const sorted = [...conversations].sort(
+    (a, b) => lastActivity(b).getTime() - lastActivity(a).getTime()
+  );
+
+  for (const conversation of sorted) {
+    const time = lastActivity(conversation).getTime();
+    if (time >= startOfToday) groups[0].conversations.push(conversation);
+    else if (time >= startOfToday - DAY_MS) groups[1].conversations.push(conversation);
+    else if (time >= startOfToday - 7 * DAY_MS) groups[2].conversations.push(conversation);
+    else groups[3].conversations.push(conversation);
+  }
+
+  return groups.filter(group => group.conversations.length > 0);
+};
+
+const menuItemClass =
+  "w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100/80 dark:hover:bg-gray-700/50 flex items-center space-x-2 transition-colors";
+
+// A single sidebar entry with inline rename and a context menu
+const ConversationItem = ({
+  conversation,
+  isActive,
+  onSelect,
+  compact,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+}: ItemProps) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(conversation.title);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hasActions = Boolean(onRename || onTogglePin || onToggleArchive || onDelete);
+
+  // Close the menu when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsMenuOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isMenuOpen]);
+
+  const runAction = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsMenuOpen(false);
+    action();
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    setIsRenaming(false);
+    if (title && title !== conversation.title) {
+      onRename?.(conversation.id, title);
+    } else {
+      setDraftTitle(conversation.title);
+    }
+  };
+
+  if (isRenaming) {
+    return (
+      <input
+        value={draftTitle}
+        onChange={(e) => setDraftTitle(e.target.value)}
+        onBlur={commitRename}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitRename();
+          if (e.key === "Escape") {
+            setDraftTitle(conversation.title);
+            setIsRenaming(false);
+          }
+        }}
+        className={`w-full ${compact ? "h-10 px-3" : "h-12 px-4"} rounded-xl bg-white dark:bg-gray-800 border border-blue-500 text-sm text-gray-800 dark:text-gray-200 focus:outline-none`}
+        aria-label="Conversation title"
+        autoFocus
+      />
+    );
+  }
+
+  return (
+    <div
+      className="group relative"
+      ref={menuRef}
+      onContextMenu={(e) => {
+        if (!hasActions) return;
+        e.preventDefault();
+        setIsMenuOpen(true);
+      }}
+    >
+      <button
+        className={`w-full ${compact ? "h-10 py-2 px-3 space-x-2" : "h-12 py-3 px-4 space-x-3"} ${hasActions ? "pr-10" : ""} flex items-center rounded-xl text-sm font-medium transition-all duration-200 shadow-sm hover:shadow border ${
+          isActive
+            ? "bg-blue-500/10 dark:bg-blue-500/15 border-blue-500/40 text-blue-700 dark:text-blue-300"
+            : "bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 border-gray-200/40 dark:border-gray-700/40"
+        }`}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSelect(conversation.id);
+        }}
+        aria-current={isActive ? "page" : undefined}
+        data-sidebar-element="chat-history-item"
+      >
+        {conversation.pinned ? (
+          <Pin className={`${compact ? "h-4 w-4" : "h-5 w-5"} text-blue-500 flex-shrink-0`} />
+        ) : (
+          <MessageSquare className={`${compact ? "h-4 w-4" : "h-5 w-5"} text-gray-500 dark:text-gray-400 flex-shrink-0`} />
+        )}
+        <div className="text-left min-w-0">
+          <p className="font-medium truncate">{conversation.title}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {conversation.local && (
+              <span
+                className="mr-1.5 inline-flex items-center rounded px-1 text-[10px] font-semibold uppercase tracking-wide bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+                title="Saved in this browser only"
+              >
+                Local
+              </span>
+            )}
+            {formatRelativeTime(lastActivity(conversation))}
+          </p>
+        </div>
+      </button>
+
+      {hasActions && (
+        <button
+          type="button"
+          className={`absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-lg text-gray-500 dark:text-gray-400 hover:bg-gray-200/80 dark:hover:bg-gray-700/80 transition-opacity ${
+            isMenuOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+          }`}
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsMenuOpen(open => !open);
+          }}
+          aria-label={`Actions for ${conversation.title}`}
+          aria-haspopup="menu"
+          aria-expanded={isMenuOpen}
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </button>
+      )}
+
+      {isMenuOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-1 z-20 w-44 rounded-xl bg-white/95 dark:bg-gray-800/95 backdrop-blur-xl border border-gray-200/40 dark:border-gray-700/40 shadow-lg py-1 overflow-hidden"
+        >
+          {onRename && (
+            <button role="menuitem" className={menuItemClass} onClick={runAction(() => {
+              setDraftTitle(conversation.title);
+              setIsRenaming(true);
+            })}>
+              <Pencil className="h-4 w-4" />
+              <span>Rename</span>
+            </button>
+          )}
+          {onTogglePin && (
+            <button role="menuitem" className={menuItemClass} onClick={runAction(() => onTogglePin(conversation.id, !conversation.pinned))}>
+              {conversation.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              <span>{conversation.pinned ? "Unpin" : "Pin to top"}</span>
+            </button>
+          )}
+          {onToggleArchive && (
+            <button role="menuitem" className={menuItemClass} onClick={runAction(() => onToggleArchive(conversation.id, !conversation.archived))}>
+              {conversation.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              <span>{conversation.archived ? "Unarchive" : "Archive"}</span>
+            </button>
+          )}
+          {onDelete && (
+            <button role="menuitem" className={`${menuItemClass} text-red-600 dark:text-red-400`} onClick={runAction(() => onDelete(conversation.id))}>
+              <Trash2 className="h-4 w-4" />
+              <span>Delete</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ConversationList = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  isCollapsed = false,
+  isLoading = false,
+  compact = false,
+  ...actions
+}: Props) => {
+  const [filter, setFilter] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const archivedCount = conversations.filter(conversation => conversation.archived).length;
+
+  const groups = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const matching = conversations.filter(conversation =>
+      Boolean(conversation.archived) === showArchived &&
+      (!query ||
+        conversation.title.toLowerCase().includes(query) ||
+        conversation.last_message?.toLowerCase().includes(query))
+    );
+
+    const pinned = matching.filter(conversation => conversation.pinned);
+    const dated = groupConversationsByDate(matching.filter(conversation => !conversation.pinned));
+    return pinned.length > 0 ? [{ label: "Pinned", conversations: pinned }, ...dated] : dated;
+  }, [conversations, filter, showArchived]);
+
+  // Icon-only mode: most recent conversations as square buttons
+  if (isCollapsed) {
+    return (
+      <div className="space-y-3 flex flex-col items-center justify-center w-full">
+        {groups.flatMap(group => group.conversations).slice(0, 8).map(conversation => (
+          <button
+            key={conversation.id}
+            className={`w-10 h-10 rounded-xl flex items-center justify-center shadow-sm hover:shadow border transition-all duration-200 transform hover:scale-105 ${
+              conversation.id === activeConversationId
+                ? "bg-blue-500/10 dark:bg-blue-500/15 border-blue-500/40 text-blue-600 dark:text-blue-400"
+                : "bg-white/80 dark:bg-gray-800/40 hover:bg-gray-100 dark:hover:bg-gray-700/40 text-gray-800 dark:text-gray-200 border-gray-200/40 dark:border-gray-700/40"
+            }`}
+            title={conversation.title}
+            aria-label={conversation.title}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect(conversation.id);
+            }}
+            data-sidebar-element="chat-history-item"
+          >
+            {conversation.pinned ? <Pin className="h-5 w-5 mx-auto" /> : <MessageSquare className="h-5 w-5 mx-auto" />}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Filter box */}
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 pointer-events-none" />
+        <input
+          type="search"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Search chats"
+          aria-label="Search conversations"
+          className="w-full rounded-xl bg-white/80 dark:bg-gray-800/40 border border-gray-200/40 dark:border-gray-700/40 pl-9 pr-3 py-2 text-sm text-gray-800 dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      {isLoading && conversations.length === 0 && (
+        <p className="px-1 text-xs text-gray-500 dark:text-gray-400">Loading conversations…</p>
+      )}
+
+      {!isLoading && groups.length === 0 && (
+        <p className="px-1 text-xs text-gray-500 dark:text-gray-400">
+          {filter ? "No matching conversations" : showArchived ? "No archived conversations" : "No conversations yet"}
+        </p>
+      )}
+
+      {groups.map(group => (
+        <div key={group.label} className="space-y-2">
+          <p className="px-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+            {group.label}
+          </p>
+          {group.conversations.map(conversation => (
+            <ConversationItem
+              key={conversation.id}
+              conversation={conversation}
+              isActive={conversation.id === activeConversationId}
+              onSelect={onSelect}
+              compact={compact}
+              {...actions}
+            />
+          ))}
+        </div>
+      ))}
+
+      {(archivedCount > 0 || showArchived) && (
+        <button
+          type="button"
+          className="w-full px-1 py-1 text-left text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 flex items-center space-x-1"
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowArchived(show => !show);
+          }}
+        >
+          <Archive className="h-3.5 w-3.5" />
+          <span>{showArchived ? "Back to conversations" : `Archived (${archivedCount})`}</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import Link from "next/link";
+import { HardDrive, Upload, X } from "lucide-react";
+
+type Props =
+  | { mode: "guest" }
+  | {
+      mode: "import";
+      count: number;
+      isImporting: boolean;
+      onImport: () => void;
+      onDismiss: () => void;
+    };
+
+const bannerClass =
+  "mx-auto max-w-3xl mt-3 px-4 py-2 rounded-xl flex items-center gap-3 text-sm border bg-amber-50/90 dark:bg-amber-900/20 border-amber-200/60 dark:border-amber-800/40 text-amber-900 dark:text-amber-200";
+
+// Guest mode notice, or (once signed in) the offer to import guest chats
+export const GuestBanner = (props: Props) => {
+  if (props.mode === "guest") {
+    return (
+      <div role="status" className={bannerClass}>
+        <HardDrive className="h-4 w-4 flex-shrink-0" />
+        <p className="flex-1">Guest mode: chats are saved in this browser only.</p>
+        <Link href="/register" className="font-medium underline-offset-2 hover:underline">
+          Create account
+        </Link>
+      </div>
+    );
+  }
+
+  const { count, isImporting, onImport, onDismiss } = props;
+  return (
+    <div role="status" className={bannerClass}>
+      <Upload className="h-4 w-4 flex-shrink-0" />
+      <p className="flex-1">
+        {count === 1 ? "1 chat" : `${count} chats`} from guest mode {count === 1 ? "is" : "are"} still on this device.
+      </p>
+      <button
+        type="button"
+        onClick={onImport}
+        disabled={isImporting}
+        className="rounded-lg px-3 py-1 font-medium bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-60 transition-colors"
+      >
+        {isImporting ? "Importing…" : "Import into account"}
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        disabled={isImporting}
+        className="p-1 rounded-md hover:bg-amber-100 dark:hover:bg-amber-900/40"
+        aria-label="Not now"
+        title="Not now"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,7 @@
+export { ConversationList, groupConversationsByDate } from './conversation-list';
+export { MessageContent } from './message-content';
+export { MessageActions } from './message-actions';
+export { GuestBanner } from './guest-banner';
+export { OfflineBanner, QueuedMessage } from './offline';
+export { ToolChips, ToolsUsed } from './tool-chips';
+export { SourcedAnswer } from './sources-panel';
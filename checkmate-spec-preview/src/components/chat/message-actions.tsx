@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+import { Check, Copy, FileText, Share2, Square, ThumbsDown, ThumbsUp, Volume2 } from "lucide-react";
+import type { MessageFeedback } from "@/lib/api";
+import { markdownToPlainText } from "@/lib/markdown";
+
+type Props = {
+  content: string;
+  feedback?: MessageFeedback;
+  onFeedback?: (rating: MessageFeedback | null) => void;
+  isSpeaking?: boolean;
+  onToggleSpeak?: (text: string) => void;
+  children?: ReactNode;
+};
+
+type CopyFormat = "markdown" | "text";
+
+const buttonClass =
+  "p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed";
+
+// Copy, share, rate and read-aloud controls for a single message. Extra
+// controls (edit, regenerate) can be passed as children and join the same
+// toolbar; arrow keys move focus between buttons.
+export const MessageActions = ({ content, feedback, onFeedback, isSpeaking = false, onToggleSpeak, children }: Props) => {
+  const [copied, setCopied] = useState<CopyFormat | null>(null);
+  const [canShare, setCanShare] = useState(false);
+  const copiedTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setCanShare(typeof navigator.share === "function");
+    return () => {
+      if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+    };
+  }, []);
+
+  const handleCopy = async (format: CopyFormat) => {
+    try {
+      await navigator.clipboard.writeText(format === "markdown" ? content : markdownToPlainText(content));
+      setCopied(format);
+      if (copiedTimerRef.current) clearTimeout(copiedTimerRef.current);
+      copiedTimerRef.current = setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy message:", error);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({ text: markdownToPlainText(content) });
+    } catch (error) {
+      // Closing the share sheet is not an error
+      if ((error as Error).name !== "AbortError") {
+        console.error("Failed to share message:", error);
+      }
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!["ArrowLeft", "ArrowRight", "Home", "End"].includes(e.key)) return;
+
+    const buttons = Array.from(e.currentTarget.querySelectorAll<HTMLButtonElement>("button:not(:disabled)"));
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    const next =
+      e.key === "Home" ? 0
+        : e.key === "End" ? buttons.length - 1
+          : (index + (e.key === "ArrowRight" ? 1 : -1) + buttons.length) % buttons.length;
+
+    e.preventDefault();
+    buttons[next]?.focus();
+  };
+
+  return (
+    <div role="toolbar" aria-label="Message actions" onKeyDown={handleKeyDown} className="flex items-center">
+      <button
+        type="button"
+        onClick={() => handleCopy("markdown")}
+        className={buttonClass}
+        title="Copy as markdown"
+        aria-label={copied === "markdown" ? "Copied as markdown" : "Copy as markdown"}
+      >
+        {copied === "markdown" ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </button>
+      <button
+        type="button"
+        onClick={() => handleCopy("text")}
+        className={buttonClass}
+        title="Copy as plain text"
+        aria-label={copied === "text" ? "Copied as plain text" : "Copy as plain text"}
+      >
+        {copied === "text" ? <Check className="h-3.5 w-3.5" /> : <FileText className="h-3.5 w-3.5" />}
+      </button>
+      {canShare && (
+        <button type="button" onClick={handleShare} className={buttonClass} title="Share" aria-label="Share">
+          <Share2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+      {onToggleSpeak && (
+        <button
+          type="button"
+          onClick={() => onToggleSpeak(markdownToPlainText(content))}
+          className={`${buttonClass} ${isSpeaking ? "text-blue-600 dark:text-blue-400" : ""}`}
+          title={isSpeaking ? "Stop reading" : "Read aloud"}
+          aria-label={isSpeaking ? "Stop reading" : "Read aloud"}
+          aria-pressed={isSpeaking}
+        >
+          {isSpeaking ? <Square className="h-3.5 w-3.5" /> : <Volume2 className="h-3.5 w-3.5" />}
+        </button>
+      )}
+      {onFeedback && (
+        <>
+          <button
+            type="button"
+            onClick={() => onFeedback(feedback === "up" ? null : "up")}
+            className={`${buttonClass} ${feedback === "up" ? "text-green-600 dark:text-green-400" : ""}`}
+            title="Good response"
+            aria-label="Good response"
+            aria-pressed={feedback === "up"}
+          >
+            <ThumbsUp className="h-3.5 w-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onFeedback(feedback === "down" ? null : "down")}
+            className={`${buttonClass} ${feedback === "down" ? "text-red-600 dark:text-red-400" : ""}`}
+            title="Bad response"
+            aria-label="Bad response"
+            aria-pressed={feedback === "down"}
+          >
+            <ThumbsDown className="h-3.5 w-3.5" />
+          </button>
+        </>
+      )}
+      {children}
+    </div>
+  );
+};
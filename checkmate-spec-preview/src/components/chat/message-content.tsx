@@ -0,0 +1,121 @@
+"use client";
+
+import { memo, useMemo, useRef, useState, type ReactNode } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { closeOpenBlocks, getCodeLanguage, linkCitations, parseCitationHref, sanitizeHref } from "@/lib/markdown";
+
+type Props = {
+  content: string;
+  isStreaming?: boolean;
+  // Link [n] markers to the source cards of the answer `scope`
+  citations?: { scope: string; count: number };
+};
+
+const remarkPlugins: Options["remarkPlugins"] = [remarkGfm, remarkMath];
+const rehypePlugins: Options["rehypePlugins"] = [rehypeKatex, [rehypeHighlight, { detect: false }]];
+
+const CodeBlock = ({ children }: { children?: ReactNode }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  // The <code> child carries the language class added by remark
+  const codeClassName = (children as { props?: { className?: string } } | undefined)?.props?.className;
+  const language = getCodeLanguage(codeClassName);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className="markdown-code-block">
+      <div className="flex items-center justify-between px-4 py-1.5 text-xs text-gray-400 bg-gray-800 dark:bg-gray-900/80">
+        <span className="font-mono">{language ?? "text"}</span>
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center space-x-1 px-1.5 py-0.5 rounded hover:text-gray-100 hover:bg-white/10 transition-colors"
+          aria-label={copied ? "Copied" : "Copy code"}
+        >
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          <span>{copied ? "Copied" : "Copy"}</span>
+        </button>
+      </div>
+      <pre ref={preRef}>{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, title, children }) => {
+    const citation = parseCitationHref(href);
+    if (citation !== null) {
+      return (
+        <sup>
+          <a
+            href={href}
+            data-citation={citation}
+            aria-label={`Source ${citation}`}
+            className="citation px-0.5 font-semibold no-underline text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {children}
+          </a>
+        </sup>
+      );
+    }
+
+    const safeHref = sanitizeHref(href);
+    if (!safeHref) return <span>{children}</span>;
+
+    const isExternal = /^(https?:|mailto:)/.test(safeHref);
+    return (
+      <a
+        href={safeHref}
+        title={title}
+        target={isExternal ? "_blank" : undefined}
+        rel={isExternal ? "noopener noreferrer nofollow" : undefined}
+      >
+        {children}
+      </a>
+    );
+  },
+  table: ({ children }) => (
+    <div className="markdown-table">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Renders assistant output as GitHub-flavored markdown with highlighted
+// code and KaTeX math. Raw HTML in the source is shown as text, never parsed.
+export const MessageContent = memo(function MessageContent({ content, isStreaming = false, citations }: Props) {
+  const scope = citations?.scope;
+  const count = citations?.count ?? 0;
+  const source = useMemo(() => {
+    const closed = isStreaming ? closeOpenBlocks(content) : content;
+    return scope ? linkCitations(closed, count, scope) : closed;
+  }, [content, isStreaming, scope, count]);
+
+  return (
+    <div className="markdown-body text-[15px] leading-relaxed">
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+});
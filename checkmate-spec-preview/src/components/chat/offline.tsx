@@ -0,0 +1,51 @@
+"use client";
+
+import { Clock, WifiOff, X } from "lucide-react";
+import type { OutboxItem } from "@/lib/outbox";
+
+type BannerProps = {
+  queuedCount: number;
+};
+
+// Shown above the composer while the browser reports no connection
+export const OfflineBanner = ({ queuedCount }: BannerProps) => (
+  <div
+    role="status"
+    className="mb-2 px-4 py-2 rounded-xl flex items-center gap-2 text-sm border bg-gray-100/90 dark:bg-gray-800/80 border-gray-300/60 dark:border-gray-700/60 text-gray-700 dark:text-gray-300"
+  >
+    <WifiOff className="h-4 w-4 flex-shrink-0" />
+    <p>
+      You&apos;re offline. Messages are queued and sent when the connection returns.
+      {queuedCount > 0 && ` ${queuedCount} waiting.`}
+    </p>
+  </div>
+);
+
+type QueuedProps = {
+  item: OutboxItem;
+  onRemove: (id: string) => void;
+};
+
+// A message waiting in the outbox, drawn like a sent user message
+export const QueuedMessage = ({ item, onRemove }: QueuedProps) => (
+  <div className="flex justify-end">
+    <div className="flex flex-col items-end max-w-full">
+      <div className="rounded-2xl px-6 py-4 shadow-sm border border-dashed border-blue-400/60 bg-blue-600/70 dark:bg-blue-500/60 text-white">
+        <p className="text-[15px] leading-relaxed whitespace-pre-wrap">{item.content}</p>
+      </div>
+      <div className="mt-1 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+        <Clock className="h-3 w-3" />
+        <span>Queued</span>
+        <button
+          type="button"
+          onClick={() => onRemove(item.id)}
+          className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          title="Remove from queue"
+          aria-label="Remove from queue"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    </div>
+  </div>
+);
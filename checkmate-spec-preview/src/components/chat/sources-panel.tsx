@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useId, useState, type MouseEvent } from "react";
+import { ChevronDown, ExternalLink } from "lucide-react";
+import type { ChatSource } from "@/lib/api";
+import { citationId, sanitizeHref } from "@/lib/markdown";
+import { MessageContent } from "./message-content";
+
+// "www.example.com/a/b" -> "example.com"; anything unparsable is shown as is
+const getDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+type CardProps = {
+  source: ChatSource;
+  n: number;
+  id: string;
+  isActive: boolean;
+};
+
+const SourceCard = ({ source, n, id, isActive }: CardProps) => {
+  const domain = getDomain(source.url);
+  const href = sanitizeHref(source.url);
+
+  return (
+    <li
+      id={id}
+      tabIndex={-1}
+      className={`rounded-xl border p-3 transition-colors focus:outline-none ${
+        isActive
+          ? "border-blue-500 bg-blue-500/5 dark:bg-blue-500/10"
+          : "border-gray-200 dark:border-gray-700/60 bg-white/60 dark:bg-gray-800/40"
+      }`}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span className="font-semibold text-blue-600 dark:text-blue-400">[{n}]</span>
+        {/* Favicon placeholder: nothing is fetched from the source's site */}
+        <span
+          aria-hidden="true"
+          className="flex h-4 w-4 flex-shrink-0 items-center justify-center rounded-sm bg-gray-200 dark:bg-gray-700 text-[10px] font-bold uppercase text-gray-600 dark:text-gray-300"
+        >
+          {domain.charAt(0)}
+        </span>
+        <span className="truncate">{domain}</span>
+      </div>
+      {href ? (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="mt-1 flex items-start gap-1 text-sm font-medium text-gray-900 dark:text-gray-100 hover:underline"
+        >
+          <span className="line-clamp-2">{source.title || domain}</span>
+          <ExternalLink className="mt-0.5 h-3 w-3 flex-shrink-0 text-gray-400" />
+        </a>
+      ) : (
+        <p className="mt-1 text-sm font-medium text-gray-900 dark:text-gray-100 line-clamp-2">{source.title || domain}</p>
+      )}
+      {source.snippet && (
+        <p className="mt-1 text-xs text-gray-600 dark:text-gray-400 line-clamp-3">{source.snippet}</p>
+      )}
+    </li>
+  );
+};
+
+type Props = {
+  messageId: string;
+  content: string;
+  sources: ChatSource[];
+};
+
+// An answer drawn from web search: its [n] markers link to a collapsible
+// list of the sources under it, so claims can be checked at the source
+export const SourcedAnswer = ({ messageId, content, sources }: Props) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+  // The card to bring into view, a new object per citation click so citing
+  // the same card again still scrolls
+  const [scrollTarget, setScrollTarget] = useState<{ n: number } | null>(null);
+  const listId = useId();
+
+  // Bring the cited card into view once the panel has rendered it
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const card = document.getElementById(citationId(messageId, scrollTarget.n));
+    card?.scrollIntoView?.({ behavior: "smooth", block: "nearest" });
+    card?.focus({ preventScroll: true });
+  }, [messageId, scrollTarget]);
+
+  // Citation links are handled here rather than by the browser, which could
+  // not scroll to a card while the panel is collapsed
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    const link = (event.target as HTMLElement).closest<HTMLElement>("a[data-citation]");
+    if (!link) return;
+    event.preventDefault();
+    const n = Number(link.dataset.citation);
+    setIsOpen(true);
+    setActiveSource(n);
+    setScrollTarget({ n });
+  };
+
+  return (
+    <div>
+      <div onClick={handleClick}>
+        <MessageContent content={content} citations={{ scope: messageId, count: sources.length }} />
+      </div>
+
+      <div className="mt-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen(open => !open)}
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 transition-colors"
+        >
+          <ChevronDown className={`h-3.5 w-3.5 transition-transform duration-200 ${isOpen ? "rotate-180" : ""}`} />
+          Sources ({sources.length})
+          {!isOpen && (
+            <span className="ml-1 truncate font-normal text-gray-400 dark:text-gray-500">
+              {sources.map(source => getDomain(source.url)).join(", ")}
+            </span>
+          )}
+        </button>
+        {isOpen && (
+          <ol id={listId} aria-label="Sources" className="mt-2 grid gap-2 sm:grid-cols-2">
+            {sources.map((source, index) => (
+              <SourceCard
+                key={`${index}-${source.url}`}
+                source={source}
+                n={index + 1}
+                id={citationId(messageId, index + 1)}
+                isActive={activeSource === index + 1}
+              />
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
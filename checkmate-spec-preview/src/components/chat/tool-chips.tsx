@@ -0,0 +1,81 @@
+"use client";
+
+import { Sparkles, Wrench, X, type LucideIcon } from "lucide-react";
+import { getChatTool, getToolName } from "@/lib/chat-tools";
+
+// Accent for the "no tools" chip and for tools the registry does not know
+const NO_TOOLS_COLOR = "#8b5cf6";
+const UNKNOWN_TOOL_COLOR = "#6b7280";
+
+type ChipProps = {
+  name: string;
+  icon: LucideIcon;
+  color: string;
+  onRemove?: () => void;
+};
+
+const Chip = ({ name, icon: Icon, color, onRemove }: ChipProps) => (
+  <span
+    className={`inline-flex items-center gap-1 rounded-full py-0.5 text-xs font-medium ${onRemove ? "pl-2.5 pr-1" : "px-2"}`}
+    // 1a: the accent at 10% opacity
+    style={{ color, backgroundColor: `${color}1a` }}
+  >
+    <Icon className="h-3.5 w-3.5" />
+    {name}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-0.5 p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+        aria-label={`Remove ${name}`}
+        title="Remove"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+const toolChipProps = (id: string) => {
+  const tool = getChatTool(id);
+  return { name: getToolName(id), icon: tool?.icon ?? Wrench, color: tool?.color ?? UNKNOWN_TOOL_COLOR };
+};
+
+type SelectionProps = {
+  // null: the server picks tools; []: no tools
+  selection: string[] | null;
+  onChange: (selection: string[] | null) => void;
+};
+
+// The tools picked in the composer, each removable. Removing the last one
+// leaves the choice to the server again.
+export const ToolChips = ({ selection, onChange }: SelectionProps) => {
+  if (selection === null) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {selection.length === 0 ? (
+        <Chip name="No tools" icon={Sparkles} color={NO_TOOLS_COLOR} onRemove={() => onChange(null)} />
+      ) : (
+        selection.map((id) => {
+          const rest = selection.filter((other) => other !== id);
+          return <Chip key={id} {...toolChipProps(id)} onRemove={() => onChange(rest.length > 0 ? rest : null)} />;
+        })
+      )}
+    </div>
+  );
+};
+
+type UsedProps = {
+  tools: string[];
+};
+
+// The tools whose data an answer was written with
+export const ToolsUsed = ({ tools }: UsedProps) => (
+  <span className="flex flex-wrap items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+    Used
+    {tools.map((id) => (
+      <Chip key={id} {...toolChipProps(id)} />
+    ))}
+  </span>
+);
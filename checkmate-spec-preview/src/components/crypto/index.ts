@@ -0,0 +1,3 @@
+export { MarketTable } from './market-table';
+export { MoversList } from './movers-list';
+export { SymbolDrawer } from './symbol-drawer';
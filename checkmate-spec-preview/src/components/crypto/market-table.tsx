@@ -0,0 +1,81 @@
+"use client";
+
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { Ticker } from "@/lib/api";
+import { formatChange, formatPair, formatPrice, formatVolume, type MarketSort, type MarketSortKey } from "@/lib/crypto";
+
+const COLUMNS: { key: MarketSortKey; label: string; align: "left" | "right" }[] = [
+  { key: "symbol", label: "Pair", align: "left" },
+  { key: "price", label: "Price", align: "right" },
+  { key: "change", label: "24h change", align: "right" },
+  { key: "volume", label: "24h volume", align: "right" }
+];
+
+type Props = {
+  tickers: Ticker[];
+  sort: MarketSort;
+  onSort: (key: MarketSortKey) => void;
+  onSelect: (symbol: string) => void;
+};
+
+// Market overview: one row per pair, sortable by any column
+export const MarketTable = ({ tickers, sort, onSort, onSelect }: Props) => (
+  <div className="overflow-x-auto rounded-2xl border border-gray-200/60 dark:border-gray-700/60 bg-white/80 dark:bg-gray-800/60">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200/60 dark:border-gray-700/60">
+          {COLUMNS.map(column => {
+            const isSorted = sort.key === column.key;
+            const SortIcon = !isSorted ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+            return (
+              <th
+                key={column.key}
+                scope="col"
+                aria-sort={isSorted ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                className={`px-4 py-3 font-medium text-gray-500 dark:text-gray-400 ${column.align === "right" ? "text-right" : "text-left"}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSort(column.key)}
+                  className={`inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100 transition-colors ${
+                    isSorted ? "text-gray-900 dark:text-gray-100" : ""
+                  }`}
+                >
+                  {column.label}
+                  <SortIcon className="h-3.5 w-3.5" />
+                </button>
+              </th>
+            );
+          })}
+        </tr>
+      </thead>
+      <tbody>
+        {tickers.map(ticker => (
+          <tr
+            key={ticker.symbol}
+            className="border-b border-gray-100 dark:border-gray-700/40 last:border-0 hover:bg-gray-50 dark:hover:bg-gray-700/40 transition-colors"
+          >
+            <td className="px-4 py-3">
+              <button
+                type="button"
+                onClick={() => onSelect(ticker.symbol)}
+                className="font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+              >
+                {formatPair(ticker.symbol)}
+              </button>
+            </td>
+            <td className="px-4 py-3 text-right tabular-nums text-gray-900 dark:text-gray-100">{formatPrice(ticker.price)}</td>
+            <td
+              className={`px-4 py-3 text-right tabular-nums font-medium ${
+                ticker.change >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              {formatChange(ticker.change)}
+            </td>
+            <td className="px-4 py-3 text-right tabular-nums text-gray-600 dark:text-gray-400">{formatVolume(ticker.volume)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
@@ -0,0 +1,48 @@
+"use client";
+
+import { TrendingDown, TrendingUp } from "lucide-react";
+import type { Mover } from "@/lib/api";
+import { formatChange, formatPair, formatPrice } from "@/lib/crypto";
+
+type Props = {
+  title: string;
+  movers: Mover[];
+  direction: "up" | "down";
+  onSelect: (symbol: string) => void;
+};
+
+// Top gainers or losers of the last 24 hours
+export const MoversList = ({ title, movers, direction, onSelect }: Props) => {
+  const Icon = direction === "up" ? TrendingUp : TrendingDown;
+  const tone = direction === "up" ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400";
+
+  return (
+    <section className="rounded-2xl border border-gray-200/60 dark:border-gray-700/60 bg-white/80 dark:bg-gray-800/60 p-4">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+        <Icon className={`h-4 w-4 ${tone}`} />
+        {title}
+      </h2>
+      {movers.length === 0 ? (
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">No data yet.</p>
+      ) : (
+        <ol className="mt-3 space-y-1">
+          {movers.map(mover => (
+            <li key={mover.symbol}>
+              <button
+                type="button"
+                onClick={() => onSelect(mover.symbol)}
+                className="flex w-full items-center justify-between rounded-lg px-2 py-1.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700/40 transition-colors"
+              >
+                <span className="font-medium text-gray-900 dark:text-gray-100">{formatPair(mover.symbol)}</span>
+                <span className="flex items-center gap-3 tabular-nums">
+                  <span className="text-gray-600 dark:text-gray-400">{formatPrice(mover.price)}</span>
+                  <span className={`w-16 text-right font-medium ${tone}`}>{formatChange(mover.change)}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Loader2, MessageSquare, X } from "lucide-react";
+import { externalAPI, isUpstreamError, toApiError, type Ticker } from "@/lib/api";
+import { formatChange, formatPair, formatPrice, formatVolume } from "@/lib/crypto";
+
+type Props = {
+  symbol: string;
+  // The pair's 24h ticker from the market table; movers outside it have none
+  ticker?: Ticker;
+  onClose: () => void;
+  onDiscuss: (symbol: string) => void;
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-xl bg-gray-50 dark:bg-gray-800 px-3 py-2">
+    <dt className="text-xs text-gray-500 dark:text-gray-400">{label}</dt>
+    <dd className="mt-0.5 text-sm font-medium tabular-nums text-gray-900 dark:text-gray-100">{value}</dd>
+  </div>
+);
+
+// Side panel with one pair's live price and 24h statistics
+export const SymbolDrawer = ({ symbol, ticker, onClose, onDiscuss }: Props) => {
+  const [price, setPrice] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  // The table's price can be a refresh interval old; fetch the current one
+  useEffect(() => {
+    let isCurrent = true;
+    setPrice(null);
+    setError(null);
+    setIsLoading(true);
+
+    externalAPI.getCryptoPrice(symbol)
+      .then(response => {
+        if (!isCurrent) return;
+        if (isUpstreamError(response.data)) {
+          setError(response.data.error);
+        } else {
+          setPrice(response.data.price);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load crypto price:", error);
+        if (isCurrent) setError(toApiError(error).message);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [symbol]);
+
+  useEffect(() => {
+    closeRef.current?.focus();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const currentPrice = price ?? ticker?.price ?? null;
+  // Where the current price sits in the day's low-high range
+  const rangePosition = ticker && currentPrice !== null && ticker.high > ticker.low
+    ? Math.min(100, Math.max(0, ((currentPrice - ticker.low) / (ticker.high - ticker.low)) * 100))
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${formatPair(symbol)} details`}
+        className="relative flex h-full w-full max-w-sm flex-col bg-white dark:bg-gray-900 shadow-2xl"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200/60 dark:border-gray-700/60 px-5 py-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{formatPair(symbol)}</h2>
+          <button
+            ref={closeRef}
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            aria-label="Close details"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4">
+          <div className="flex items-baseline gap-3">
+            <span className="text-3xl font-semibold tabular-nums text-gray-900 dark:text-white">
+              {currentPrice !== null ? formatPrice(currentPrice) : "—"}
+            </span>
+            {ticker && (
+              <span className={`text-sm font-medium ${ticker.change >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}`}>
+                {formatChange(ticker.change)}
+              </span>
+            )}
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" aria-label="Loading price" />}
+          </div>
+          {error && (
+            <p role="alert" className="mt-3 flex items-start space-x-2 rounded-lg bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </p>
+          )}
+
+          {ticker ? (
+            <>
+              {rangePosition !== null && (
+                <div className="mt-6">
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                    <span>24h low</span>
+                    <span>24h high</span>
+                  </div>
+                  <div className="relative mt-1 h-2 rounded-full bg-gradient-to-r from-red-400 via-gray-300 to-emerald-400 dark:via-gray-600">
+                    <span
+                      className="absolute top-1/2 h-3.5 w-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white dark:border-gray-900 bg-gray-900 dark:bg-white"
+                      style={{ left: `${rangePosition}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+              <dl className="mt-6 grid grid-cols-2 gap-2">
+                <Stat label="24h open" value={formatPrice(ticker.openPrice)} />
+                <Stat label="24h volume" value={formatVolume(ticker.volume)} />
+                <Stat label="24h high" value={formatPrice(ticker.high)} />
+                <Stat label="24h low" value={formatPrice(ticker.low)} />
+              </dl>
+            </>
+          ) : (
+            <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">
+              24h statistics are only tracked for the pairs in the market table.
+            </p>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200/60 dark:border-gray-700/60 px-5 py-4">
+          <button
+            type="button"
+            onClick={() => onDiscuss(symbol)}
+            className="inline-flex w-full items-center justify-center gap-2 rounded-xl bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
+          >
+            <MessageSquare className="h-4 w-4" />
+            Ask about {formatPair(symbol)}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { AIModelDropdown } from './ai-model-dropdown';
+
+const models = [
+  { id: 'gpt-4', name: 'GPT-4', provider: 'OpenAI', description: '', features: ['web_search'] },
+  { id: 'claude', name: 'Claude', provider: 'Anthropic', description: '', available: false, unavailable_reason: 'Anthropic API key is not configured' },
+  { id: 'llama-70b', name: 'Llama 70B', provider: 'Groq', description: '', features: ['ultra_fast'], recommended: true },
+  { id: 'llama-8b', name: 'Llama 8B', provider: 'Groq', description: '', features: ['instant'] }
+];
+
+// Mock the model registry
+jest.mock('@/hooks', () => ({
+  useModelRegistry: () => ({
+    models,
+    getModel: (id: string) => models.find(model => model.id === id)
+  })
+}));
+
+describe('AIModelDropdown', () => {
+  const renderDropdown = (selectedModel = 'gpt-4') => {
+    const onModelSelect = jest.fn();
+    render(<AIModelDropdown selectedModel={selectedModel} onModelSelect={onModelSelect} />);
+    return onModelSelect;
+  };
+
+  it('groups models by provider with badges and reasons', () => {
+    renderDropdown();
+    fireEvent.click(screen.getByRole('button', { name: /GPT-4/ }));
+
+    expect(screen.getAllByRole('group')).toHaveLength(3);
+    expect(within(screen.getByRole('group', { name: 'Groq' })).getAllByRole('option')).toHaveLength(2);
+    expect(screen.getByText('Ultra fast')).toBeInTheDocument();
+    expect(screen.getByText('Recommended')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: /Claude/ })).toHaveAttribute('aria-disabled', 'true');
+    expect(screen.getByText('Anthropic API key is not configured')).toBeInTheDocument();
+  });
+
+  it('skips unavailable models when moving with the arrow keys', () => {
+    const onModelSelect = renderDropdown();
+    fireEvent.click(screen.getByRole('button', { name: /GPT-4/ }));
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveAttribute('aria-activedescendant', screen.getByRole('option', { name: /Llama 70B/ }).id);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onModelSelect).toHaveBeenCalledWith('llama-70b');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('filters by name or feature and opens with typeahead', () => {
+    const onModelSelect = renderDropdown();
+    const trigger = screen.getByRole('button', { name: /GPT-4/ });
+
+    fireEvent.keyDown(trigger, { key: 'i' });
+    const input = screen.getByRole('combobox');
+    fireEvent.change(input, { target: { value: 'instant' } });
+
+    expect(screen.getAllByRole('option')).toHaveLength(1);
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onModelSelect).toHaveBeenCalledWith('llama-8b');
+  });
+
+  it('clears the filter, then closes on Escape', () => {
+    renderDropdown();
+    const trigger = screen.getByRole('button', { name: /GPT-4/ });
+    fireEvent.keyDown(trigger, { key: 'ArrowDown' });
+    const input = screen.getByRole('combobox');
+    fireEvent.change(input, { target: { value: 'llama' } });
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(input).toHaveValue('');
+    fireEvent.keyDown(input, { key: 'Escape' });
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(trigger).toHaveFocus();
+  });
+});
@@ -1,14 +1,10 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { ChevronDown, Zap } from "lucide-react";
-
-type AIModel = {
-  id: string;
-  name: string;
-  provider: string;
-  description: string;
-};
+import { useState, useRef, useEffect, useId, useMemo, type KeyboardEvent } from "react";
+import { Check, ChevronDown, Search, Star, Zap } from "lucide-react";
+import { useModelRegistry } from "@/hooks";
+import type { AIModel } from "@/lib/api";
+import { filterModels, getFeatureLabel, groupByProvider, isModelAvailable } from "@/lib/model-registry";
 
 type Props = {
   selectedModel: string;
@@ -16,103 +12,286 @@ type Props = {
   className?: string;
 };
 
-const aiModels: AIModel[] = [
-  { id: 'choose-model', name: 'Choose your model', provider: '', description: 'Select an AI model to use' },
-  { id: 'openai/gpt-oss-120b', name: 'GPT-OSS-120B', provider: 'OpenAI', description: 'Open source 120B parameter model' },
-  { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama-4 Maverick 17B', provider: 'Meta', description: '17B parameter model with 128 experts' },
-  { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 Distill Llama 70B', provider: 'DeepSeek', description: 'Distilled version of DeepSeek R1 with 70B parameters' },
-  { id: 'qwen/qwen3-32b', name: 'Qwen3 32B', provider: 'Qwen', description: 'Latest Qwen model with 32B parameters' },
-  { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', provider: 'Moonshot AI', description: 'Kimi K2 instruction-following model' }
-];
+// Compact token count, e.g. 131072 -> "131K"
+const formatContextWindow = (tokens: number) =>
+  tokens >= 1000000 ? `${Math.round(tokens / 100000) / 10}M` : `${Math.round(tokens / 1000)}K`;
+
+// Model ids contain slashes and dots; element ids should not
+const toDomId = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "-");
 
+// Combobox-pattern model picker: type to filter, arrows to move, Enter to
+// pick, Escape to clear the filter and then close. Typing on the closed
+// button opens it with that text as the filter.
 export const AIModelDropdown = ({ selectedModel, onModelSelect, className = "" }: Props) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const { models, getModel } = useModelRegistry();
   const dropdownRef = useRef<HTMLDivElement>(null);
-  
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const baseId = useId();
+  const listboxId = `${baseId}-listbox`;
+  const optionId = (modelId: string) => `${baseId}-option-${toDomId(modelId)}`;
+
+  const groups = useMemo(() => groupByProvider(filterModels(models, query)), [models, query]);
+  // Arrow keys visit the enabled options in the order they are shown
+  const navigableIds = useMemo(
+    () => groups.flatMap(group => group.models).filter(isModelAvailable).map(model => model.id),
+    [groups]
+  );
+  const currentActiveId = activeId && navigableIds.includes(activeId) ? activeId : navigableIds[0] ?? null;
+
+  const selectedModelData = getModel(selectedModel);
+
+  const openPicker = (initialQuery = "") => {
+    setQuery(initialQuery);
+    setActiveId(initialQuery ? null : selectedModel);
+    setIsOpen(true);
+  };
+
+  const closePicker = (restoreFocus = true) => {
+    setIsOpen(false);
+    setQuery("");
+    setActiveId(null);
+    if (restoreFocus) triggerRef.current?.focus();
+  };
+
+  const selectModel = (model: AIModel) => {
+    if (!isModelAvailable(model)) return;
+    onModelSelect(model.id);
+    closePicker();
+  };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setIsOpen(false);
+        setQuery("");
       }
     };
-    
+
     document.addEventListener("mousedown", handleClickOutside);
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
   }, []);
-  
-  const selectedModelData = aiModels.find(model => model.id === selectedModel) || aiModels[0];
-  
+
+  useEffect(() => {
+    if (isOpen) inputRef.current?.focus();
+  }, [isOpen]);
+
+  // Keep the active option in view while arrowing through a long list
+  useEffect(() => {
+    if (!isOpen || !currentActiveId) return;
+    document.getElementById(`${baseId}-option-${toDomId(currentActiveId)}`)?.scrollIntoView?.({ block: "nearest" });
+  }, [isOpen, currentActiveId, baseId]);
+
+  const moveActive = (offset: number) => {
+    if (navigableIds.length === 0) return;
+    const index = currentActiveId ? navigableIds.indexOf(currentActiveId) : -1;
+    const next = index === -1
+      ? (offset > 0 ? 0 : navigableIds.length - 1)
+      : (index + offset + navigableIds.length) % navigableIds.length;
+    setActiveId(navigableIds[next]);
+  };
+
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        moveActive(1);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        moveActive(-1);
+        break;
+      case "Home":
+      case "End":
+        // With text in the filter these move the caret instead
+        if (query) return;
+        event.preventDefault();
+        setActiveId(navigableIds[event.key === "Home" ? 0 : navigableIds.length - 1] ?? null);
+        break;
+      case "Enter": {
+        event.preventDefault();
+        const model = currentActiveId ? getModel(currentActiveId) : undefined;
+        if (model) selectModel(model);
+        break;
+      }
+      case "Escape":
+        event.preventDefault();
+        if (query) {
+          setQuery("");
+        } else {
+          closePicker();
+        }
+        break;
+      case "Tab":
+        closePicker(false);
+        break;
+    }
+  };
+
+  const handleTriggerKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (isOpen) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      openPicker();
+    } else if (event.key.length === 1 && event.key !== " " && !event.metaKey && !event.ctrlKey && !event.altKey) {
+      // Typeahead: start filtering with the typed character
+      event.preventDefault();
+      openPicker(event.key);
+    }
+  };
+
   return (
     <div className={`relative ${className}`} ref={dropdownRef}>
       {/* Dropdown Button */}
       <button
+        ref={triggerRef}
         type="button"
         className="flex items-center justify-between w-full rounded-2xl bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border border-gray-200/40 dark:border-gray-700/40 px-4 py-2.5 text-sm font-medium transition-all duration-200 shadow hover:shadow-md text-gray-700 dark:text-gray-300 hover:bg-white/90 dark:hover:bg-gray-700/90"
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => (isOpen ? closePicker(false) : openPicker())}
+        onKeyDown={handleTriggerKeyDown}
         aria-haspopup="listbox"
         aria-expanded={isOpen}
+        title="Choose a model (type to search)"
       >
         <div className="flex items-center truncate">
           <Zap className="h-4 w-4 mr-2 text-blue-500 flex-shrink-0" />
-          <span className="truncate">{selectedModelData.name}</span>
+          <span className="truncate">{selectedModelData?.name ?? "Choose your model"}</span>
         </div>
-        <ChevronDown 
-          className={`h-4 w-4 ml-2 text-gray-500 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} 
+        <ChevronDown
+          className={`h-4 w-4 ml-2 text-gray-500 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
         />
       </button>
-      
+
       {/* Dropdown Menu */}
       {isOpen && (
-        <div className="absolute right-0 z-50 mt-2 w-72 origin-top-right rounded-2xl bg-white/90 dark:bg-gray-800/90 backdrop-blur-xl border border-gray-200/40 dark:border-gray-700/40 shadow-xl shadow-gray-900/10 dark:shadow-gray-900/30 overflow-hidden">
-          <div 
+        <div className="absolute right-0 z-50 mt-2 w-80 origin-top-right rounded-2xl bg-white/90 dark:bg-gray-800/90 backdrop-blur-xl border border-gray-200/40 dark:border-gray-700/40 shadow-xl shadow-gray-900/10 dark:shadow-gray-900/30 overflow-hidden">
+          {/* Filter */}
+          <div className="flex items-center px-3 py-2 border-b border-gray-200/60 dark:border-gray-700/60">
+            <Search className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+            <input
+              ref={inputRef}
+              type="text"
+              role="combobox"
+              aria-expanded={true}
+              aria-controls={listboxId}
+              aria-autocomplete="list"
+              aria-activedescendant={currentActiveId ? optionId(currentActiveId) : undefined}
+              aria-label="Search models"
+              placeholder="Search models or features..."
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setActiveId(null);
+              }}
+              onKeyDown={handleInputKeyDown}
+              className="w-full bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none"
+            />
+          </div>
+
+          <div
+            id={listboxId}
             role="listbox"
-            className="py-2 max-h-80 overflow-y-auto"
+            aria-label="AI models"
+            className="py-1 max-h-80 overflow-y-auto"
           >
-            {aiModels.map((model) => (
-              <button
-                key={model.id}
-                type="button"
-                className={`w-full px-4 py-3 text-left text-sm transition-all duration-150 flex flex-col ${
-                  selectedModel === model.id 
-                    ? 'bg-blue-500/10 dark:bg-blue-500/15 border-l-4 border-blue-500' 
-                    : 'hover:bg-gray-100/80 dark:hover:bg-gray-700/50'
-                }`}
-                onClick={() => {
-                  if (model.id !== 'choose-model') {
-                    onModelSelect(model.id);
-                  }
-                  setIsOpen(false);
-                }}
-                disabled={model.id === 'choose-model'}
-              >
-                <div className="flex items-center justify-between">
-                  <span className="font-medium text-gray-900 dark:text-gray-100 truncate">
-                    {model.name}
-                  </span>
-                  {selectedModel === model.id && (
-                    <div className="h-2 w-2 rounded-full bg-blue-500"></div>
-                  )}
-                </div>
-                {model.provider && (
-                  <div className="flex items-center mt-1">
-                    <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
-                      {model.provider}
-                    </span>
+            {groups.length === 0 && (
+              <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                No models match &quot;{query}&quot;
+              </p>
+            )}
+
+            {groups.map((group) => {
+              const groupLabelId = `${baseId}-group-${toDomId(group.provider)}`;
+              return (
+                <div key={group.provider} role="group" aria-labelledby={groupLabelId}>
+                  <div
+                    id={groupLabelId}
+                    role="presentation"
+                    className="px-4 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500"
+                  >
+                    {group.provider}
                   </div>
-                )}
-                {model.description && (
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
-                    {model.description}
-                  </p>
-                )}
-              </button>
-            ))}
+
+                  {group.models.map((model) => {
+                    const available = isModelAvailable(model);
+                    const isSelected = model.id === selectedModel;
+                    const isActive = model.id === currentActiveId;
+
+                    return (
+                      <div
+                        key={model.id}
+                        id={optionId(model.id)}
+                        role="option"
+                        aria-selected={isSelected}
+                        aria-disabled={!available || undefined}
+                        // Keep focus in the filter so the keyboard keeps working
+                        onMouseDown={(e) => e.preventDefault()}
+                        onMouseEnter={() => available && setActiveId(model.id)}
+                        onClick={() => selectModel(model)}
+                        className={`px-4 py-2.5 text-left text-sm transition-colors duration-150 flex flex-col ${
+                          !available
+                            ? 'opacity-50 cursor-not-allowed'
+                            : isActive
+                              ? 'bg-blue-500/10 dark:bg-blue-500/15 cursor-pointer'
+                              : 'cursor-pointer'
+                        } ${isSelected ? 'border-l-4 border-blue-500' : 'border-l-4 border-transparent'}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                            {model.name}
+                          </span>
+                          <span className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                            {model.recommended && (
+                              <span className="inline-flex items-center text-[11px] font-medium text-amber-600 dark:text-amber-400">
+                                <Star className="h-3 w-3 mr-0.5 fill-current" />
+                                Recommended
+                              </span>
+                            )}
+                            {isSelected && <Check className="h-4 w-4 text-blue-500" aria-hidden="true" />}
+                          </span>
+                        </div>
+                        {model.description && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
+                            {model.description}
+                          </p>
+                        )}
+                        {(model.features?.length || model.context_window !== undefined) && (
+                          <div className="flex flex-wrap items-center gap-1 mt-1.5">
+                            {model.context_window !== undefined && (
+                              <span className="px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                {formatContextWindow(model.context_window)} context
+                              </span>
+                            )}
+                            {model.features?.map((feature) => (
+                              <span
+                                key={feature}
+                                className="px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-blue-500/10 text-blue-700 dark:text-blue-300"
+                              >
+                                {getFeatureLabel(feature)}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {!available && (
+                          <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+                            {model.unavailable_reason ?? "Currently unavailable"}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,52 +1,44 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Plus, Globe, TrendingUp, Sparkles } from "lucide-react";
-
-type SearchTool = {
-  id: string;
-  name: string;
-  icon: React.ReactNode;
-  color: string;
-  bgColor: string;
-};
+import { Plus, Sparkles, Check } from "lucide-react";
+import { checkToolAvailability, getChatTools, type ToolContext } from "@/lib/chat-tools";
 
 type Props = {
-  onToolSelect: (toolId: string) => void;
-  selectedTool: string | null;
+  // null: the server picks tools; []: no tools
+  selectedTools: string[] | null;
+  onChange: (selection: string[] | null) => void;
+  context: ToolContext;
   isDarkMode: boolean;
+  // Which edge of the button the menu lines up with
+  align?: "left" | "right";
   className?: string;
 };
 
-const searchTools: SearchTool[] = [
-  { 
-    id: 'web', 
-    name: 'Search web', 
-    icon: <Globe className="h-5 w-5" />, 
-    color: 'text-blue-500',
-    bgColor: 'bg-blue-500/10'
-  },
-  { 
-    id: 'crypto', 
-    name: 'Get crypto data', 
-    icon: <TrendingUp className="h-5 w-5" />, 
-    color: 'text-green-500',
-    bgColor: 'bg-green-500/10'
-  },
-  { 
-    id: 'ai', 
-    name: 'AI Chat', 
-    icon: <Sparkles className="h-5 w-5" />, 
-    color: 'text-purple-500',
-    bgColor: 'bg-purple-500/10'
-  }
-];
+const NO_TOOLS_COLOR = "#8b5cf6";
+
+// Add or remove one tool; an empty pick goes back to letting the server choose
+const toggleTool = (selection: string[] | null, toolId: string): string[] | null => {
+  const current = selection ?? [];
+  const next = current.includes(toolId) ? current.filter(id => id !== toolId) : [...current, toolId];
+  return next.length > 0 ? next : null;
+};
 
-export const SearchToolsDropdown = ({ onToolSelect, selectedTool, isDarkMode, className = "" }: Props) => {
+// Plus button with a menu of the registered chat tools. Several tools can be
+// on at once; "AI Chat only" turns them all off for a plain answer.
+export const SearchToolsDropdown = ({
+  selectedTools,
+  onChange,
+  context,
+  isDarkMode,
+  align = "right",
+  className = ""
+}: Props) => {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const plusButtonRef = useRef<HTMLButtonElement>(null);
-  
+  const tools = getChatTools();
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -55,45 +47,53 @@ export const SearchToolsDropdown = ({ onToolSelect, selectedTool, isDarkMode, cl
         setIsOpen(false);
       }
     };
-    
+
     document.addEventListener("mousedown", handleClickOutside);
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
   }, []);
-  
-  const handleToolSelect = (toolId: string) => {
-    onToolSelect(toolId);
-    setIsOpen(false);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Escape" && isOpen) {
+      event.preventDefault();
+      setIsOpen(false);
+      plusButtonRef.current?.focus();
+    }
   };
-  
+
+  const noTools = selectedTools?.length === 0;
+  const firstTool = selectedTools?.[0] ? tools.find(tool => tool.id === selectedTools[0]) : undefined;
+  const buttonColor = noTools ? NO_TOOLS_COLOR : firstTool?.color ?? (isDarkMode ? "#9ca3af" : "#6b7280");
+
   return (
-    <div className={`relative ${className}`}>
+    <div className={`relative ${className}`} onKeyDown={handleKeyDown}>
       {/* Plus Button */}
       <button
         ref={plusButtonRef}
         type="button"
         className={`flex-shrink-0 w-10 h-10 flex items-center justify-center rounded-full transition-all duration-200 ease-in-out transform ${
-          isOpen ? 'rotate-45' : 'rotate-0'
+          isOpen ? 'rotate-45 bg-gray-100 dark:bg-gray-700' : 'rotate-0 hover:bg-gray-100 dark:hover:bg-gray-700'
         }`}
         onClick={() => setIsOpen(!isOpen)}
-        style={{
-          color: selectedTool === 'web' ? '#3b82f6' : 
-                 selectedTool === 'crypto' ? '#10b981' : 
-                 selectedTool === 'ai' ? '#8b5cf6' : 
-                 isDarkMode ? '#9ca3af' : '#6b7280'
-        }}
+        style={{ color: buttonColor }}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Select tools"
+        title="Select tools"
       >
         <Plus className="h-5 w-5" />
       </button>
-      
+
       {/* Dropdown Menu */}
       {isOpen && (
-        <div 
+        <div
           ref={dropdownRef}
-          className="absolute bottom-full mb-2 w-48 rounded-2xl shadow-lg border border-gray-200/40 dark:border-gray-700/40 py-2 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl animate-fadeInUp"
-          style={{ 
-            right: '1.5rem',
+          role="menu"
+          aria-label="Tools"
+          className="absolute bottom-full mb-2 w-64 rounded-2xl shadow-lg border border-gray-200/40 dark:border-gray-700/40 py-2 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl animate-fadeInUp"
+          style={{
+            ...(align === "left" ? { left: 0 } : { right: '1.5rem' }),
             bottom: 'calc(100% + 0.5rem)',
             animationDuration: '0.3s'
           }}
@@ -101,23 +101,49 @@ export const SearchToolsDropdown = ({ onToolSelect, selectedTool, isDarkMode, cl
           <div className="px-4 py-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
             Select Tools
           </div>
-          {searchTools.map((tool) => (
-            <button
-              key={tool.id}
-              type="button"
-              className={`w-full px-4 py-3 text-left text-sm text-gray-700 dark:text-gray-300 hover:${tool.bgColor} dark:hover:${tool.bgColor} flex items-center transition-all duration-200 group rounded-xl mx-1`}
-              onClick={() => handleToolSelect(tool.id)}
-            >
-              <div className={`${tool.color} mr-3 group-hover:scale-110 transition-transform duration-200`}>
-                {tool.icon}
-              </div>
-              <span className="group-hover:translate-x-1 transition-transform duration-200 font-medium">
-                {tool.name}
-              </span>
-            </button>
-          ))}
+          {tools.map((tool) => {
+            const availability = checkToolAvailability(tool, context);
+            const isSelected = selectedTools?.includes(tool.id) ?? false;
+            const Icon = tool.icon;
+
+            return (
+              <button
+                key={tool.id}
+                type="button"
+                role="menuitemcheckbox"
+                aria-checked={isSelected}
+                disabled={!availability.available}
+                className="w-full px-4 py-2.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-500/10 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent flex items-center transition-all duration-200 group rounded-xl mx-1"
+                onClick={() => onChange(toggleTool(selectedTools, tool.id))}
+              >
+                <Icon className="h-5 w-5 mr-3 flex-shrink-0 group-hover:scale-110 transition-transform duration-200" style={{ color: tool.color }} />
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium">{tool.name}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {availability.available ? tool.description : availability.reason}
+                  </span>
+                </span>
+                {isSelected && <Check className="h-4 w-4 ml-2 flex-shrink-0" style={{ color: tool.color }} aria-hidden="true" />}
+              </button>
+            );
+          })}
+          <div className="my-1 border-t border-gray-200/60 dark:border-gray-700/60" />
+          <button
+            type="button"
+            role="menuitemcheckbox"
+            aria-checked={noTools}
+            className="w-full px-4 py-2.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-purple-500/10 flex items-center transition-all duration-200 group rounded-xl mx-1"
+            onClick={() => onChange(noTools ? null : [])}
+          >
+            <Sparkles className="h-5 w-5 mr-3 flex-shrink-0 text-purple-500 group-hover:scale-110 transition-transform duration-200" />
+            <span className="flex-1 min-w-0">
+              <span className="block font-medium">AI Chat only</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">Answer without any tools</span>
+            </span>
+            {noTools && <Check className="h-4 w-4 ml-2 flex-shrink-0 text-purple-500" aria-hidden="true" />}
+          </button>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
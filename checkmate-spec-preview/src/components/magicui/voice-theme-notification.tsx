@@ -8,6 +8,8 @@ interface VoiceThemeNotificationProps {
   isVisible: boolean;
   onClose: () => void;
   type?: 'info' | 'success' | 'error' | 'warning'; // Add type property
+  action?: { label: string; onClick: () => void }; // Optional inline action, e.g. Undo
+  duration?: number; // Override the auto-dismiss delay in milliseconds
 }
 
 export function VoiceThemeNotification({ 
@@ -15,18 +17,20 @@ export function VoiceThemeNotification({
   theme, 
   isVisible, 
   onClose,
-  type = 'info' // Default to info
+  type = 'info', // Default to info
+  action,
+  duration
 }: VoiceThemeNotificationProps) {
   // Auto-dismiss after 3 seconds
   useEffect(() => {
     if (isVisible) {
       const timer = setTimeout(() => {
         onClose();
-      }, type === 'error' ? 5000 : 3000); // Show errors for longer
+      }, duration ?? (type === 'error' ? 5000 : 3000)); // Show errors for longer
       
       return () => clearTimeout(timer);
     }
-  }, [isVisible, onClose, type]);
+  }, [isVisible, onClose, type, duration]);
 
   if (!isVisible) return null;
 
@@ -325,6 +329,17 @@ export function VoiceThemeNotification({
       <div className={`${isSidebarNotification ? 'text-lg' : 'text-base'} luxury-text-glow`}>
         {formatMessage()}
       </div>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            onClose();
+          }}
+          className="ml-2 px-2 py-0.5 rounded-lg text-sm font-semibold underline-offset-2 hover:underline focus:outline-none"
+        >
+          {action.label}
+        </button>
+      )}
       <button 
         onClick={onClose}
         className="ml-2 text-sm opacity-70 hover:opacity-100 focus:outline-none transition-opacity duration-200 luxury-icon-glow"
@@ -0,0 +1 @@
+export { NewsClusterCard } from './news-cluster-card';
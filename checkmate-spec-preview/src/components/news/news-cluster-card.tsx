@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ExternalLink } from "lucide-react";
+import { sanitizeHref } from "@/lib/markdown";
+import { formatArticleAge, getOutlet, type NewsCluster } from "@/lib/news";
+
+type Props = {
+  cluster: NewsCluster;
+  isSelected: boolean;
+  onToggle: (clusterId: string) => void;
+};
+
+// One story in the news feed: the first outlet's headline and summary,
+// with the other outlets that ran it folded underneath
+export const NewsClusterCard = ({ cluster, isSelected, onToggle }: Props) => {
+  const [showRelated, setShowRelated] = useState(false);
+  const { lead, related } = cluster;
+  const href = sanitizeHref(lead.url);
+  const age = formatArticleAge(lead);
+
+  return (
+    <li
+      className={`rounded-2xl border p-4 transition-colors ${
+        isSelected
+          ? "border-blue-500 bg-blue-500/5 dark:bg-blue-500/10"
+          : "border-gray-200/60 dark:border-gray-700/60 bg-white/80 dark:bg-gray-800/60"
+      }`}
+    >
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggle(cluster.id)}
+          className="mt-1 h-4 w-4 flex-shrink-0 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          aria-label={`Select "${lead.title}"`}
+        />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-500 dark:text-gray-400">
+            <span className="font-medium">{getOutlet(lead) || "Unknown outlet"}</span>
+            {age && <span>· {age}</span>}
+            {related.length > 0 && (
+              <span className="rounded-full bg-gray-100 dark:bg-gray-700 px-2 py-0.5 font-medium">
+                {related.length + 1} outlets
+              </span>
+            )}
+          </div>
+          {href ? (
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="mt-1 inline-flex items-start gap-1 font-semibold text-gray-900 dark:text-gray-100 hover:underline"
+            >
+              <span>{lead.title}</span>
+              <ExternalLink className="mt-1 h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+            </a>
+          ) : (
+            <p className="mt-1 font-semibold text-gray-900 dark:text-gray-100">{lead.title}</p>
+          )}
+          {lead.description && (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-3">{lead.description}</p>
+          )}
+
+          {related.length > 0 && (
+            <div className="mt-2">
+              <button
+                type="button"
+                onClick={() => setShowRelated(open => !open)}
+                aria-expanded={showRelated}
+                className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200 transition-colors"
+              >
+                <ChevronDown className={`h-3.5 w-3.5 transition-transform duration-200 ${showRelated ? "rotate-180" : ""}`} />
+                Also covered by {related.map(getOutlet).filter(Boolean).join(", ") || `${related.length} more`}
+              </button>
+              {showRelated && (
+                <ul className="mt-2 space-y-1 border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                  {related.map((item, index) => {
+                    const relatedHref = sanitizeHref(item.url);
+                    return (
+                      <li key={`${index}-${item.url ?? item.title}`} className="text-sm">
+                        {relatedHref ? (
+                          <a href={relatedHref} target="_blank" rel="noopener noreferrer nofollow" className="text-gray-800 dark:text-gray-200 hover:underline">
+                            {item.title}
+                          </a>
+                        ) : (
+                          <span className="text-gray-800 dark:text-gray-200">{item.title}</span>
+                        )}
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                          {[getOutlet(item), formatArticleAge(item)].filter(Boolean).join(" · ")}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+};
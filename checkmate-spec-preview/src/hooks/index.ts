@@ -1,199 +1,826 @@
 // Enhanced React hooks for Checkmate Spec Preview
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { chatAPI, externalAPI, type Message, type AIModel, type Conversation } from '@/lib/api';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  chatAPI,
+  externalAPI,
+  isUpstreamError,
+  toApiError,
+  type ApiError,
+  type ApiHealth,
+  type ChatCapabilities,
+  type ChatHistoryMessage,
+  type Conversation,
+  type ConversationUpdate,
+  type GainersLosers,
+  type Message,
+  type MessageFeedback,
+  type NewsItem,
+  type SearchResult,
+  type Ticker
+} from '@/lib/api';
+import {
+  addMessage,
+  createMessageId,
+  createMessageTree,
+  getActiveLeafId,
+  getActivePath,
+  getPathTo,
+  getSiblingInfo,
+  mergeStoredMessages,
+  selectSibling,
+  updateMessage,
+  type MessageTree
+} from '@/lib/message-tree';
+import { guestStore, isGuestStoreAvailable, type ConversationStore } from '@/lib/guest-store';
+import { importGuestConversations, type GuestImportResult } from '@/lib/guest-import';
+import { GUEST_IMPORT_ENABLED } from '@/lib/config';
+import {
+  assignNewChatMessages,
+  enqueueMessage,
+  getNextQueued,
+  getQueuedMessages,
+  OUTBOX_KEY,
+  readOutbox,
+  removeFromOutbox,
+  type OutboxItem
+} from '@/lib/outbox';
+import { sessionManager, type SessionStatus } from '@/lib/session';
+import {
+  createChatSocket,
+  type ChatClientFrame,
+  type ChatSocket,
+  type ChatSocketStatus
+} from '@/lib/chat-socket';
+import { streamChatReply } from '@/lib/chat-transport';
+import { prepareToolRequest } from '@/lib/chat-tools';
+import { getDefaultModelId, modelRegistry, type ModelRegistryState } from '@/lib/model-registry';
+import type { ChatServerFrame, ChatStreamDone } from '@/lib/schemas';
 
 // Export dark mode hook
 export { useDarkMode } from './useDarkMode';
 
+// Export auth provider and hook
+export { AuthProvider, useAuth, type AuthStatus } from './useAuth';
+
+// History sent with a request: prior turns of the branch, minus error bubbles
+const toHistory = (path: Message[]): ChatHistoryMessage[] =>
+  path
+    .filter(message => !message.isError)
+    .map(({ role, content }) => ({ role, content }));
+
+// Provisional title for a new conversation: the prompt's first few words
+const provisionalTitle = (prompt: string): string => {
+  const words = prompt.trim().split(/\s+/);
+  const title = words.slice(0, 6).join(' ');
+  const truncated = title.length > 50 ? `${title.slice(0, 50).trimEnd()}…` : title;
+  return words.length > 6 && !truncated.endsWith('…') ? `${truncated}…` : truncated || 'New conversation';
+};
+
+// Normalize a model-written title: single line, no quotes or trailing period
+const cleanGeneratedTitle = (text: string): string =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .find(Boolean)
+    ?.replace(/^(title:\s*)/i, '')
+    .replace(/^["'“”]+|["'“”.]+$/g, '')
+    .trim()
+    .slice(0, 80) ?? '';
+
+// How long a deleted conversation can be restored before it is removed
+export const DELETE_UNDO_MS = 5000;
+
+// Messages fetched per page of conversation history
+const HISTORY_PAGE_SIZE = 30;
+
+type HistoryCursor = {
+  oldestId: string | null;
+  hasMore: boolean;
+  // Stored messages loaded so far, with the parent ids they were stored with
+  loaded: Message[];
+};
+
+type PendingDelete = {
+  conversation: Conversation;
+  index: number;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type QueuedSendResult = {
+  // The conversation written to, including one created for a new chat; null
+  // if it could not be opened or created
+  conversationId: string | null;
+  // Whether a reply came back; otherwise the message was not added
+  sent: boolean;
+};
+
+type UseChatOptions = {
+  // Keep conversations in this browser instead of on the server
+  guest?: boolean;
+};
+
+// Hook for the model registry; loads the backend's list on first use
+export const useModelRegistry = () => {
+  const [registry, setRegistry] = useState<ModelRegistryState>(modelRegistry.getState);
+
+  useEffect(() => {
+    const unsubscribe = modelRegistry.subscribe(setRegistry);
+    modelRegistry.load();
+    setRegistry(modelRegistry.getState());
+    return unsubscribe;
+  }, []);
+
+  const getModel = useCallback((id: string) => registry.models.find(model => model.id === id), [registry.models]);
+  const reload = useCallback(() => modelRegistry.load(true), []);
+
+  return {
+    ...registry,
+    defaultModelId: getDefaultModelId(registry.models),
+    getModel,
+    reload
+  };
+};
+
 // Hook for managing chat state
-export const useChat = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
+export const useChat = ({ guest = false }: UseChatOptions = {}) => {
+  const store: ConversationStore = guest ? guestStore : chatAPI;
+  const [messageTree, setMessageTree] = useState<MessageTree>(createMessageTree);
   const [isLoading, setIsLoading] = useState(false);
   const [currentResponse, setCurrentResponse] = useState('');
-  const [availableModels, setAvailableModels] = useState<AIModel[]>([
-    { id: 'openai/gpt-oss-120b', name: 'GPT-OSS-120B', provider: 'OpenAI', description: 'Open source 120B parameter model' },
-    { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama-4 Maverick 17B', provider: 'Meta', description: '17B parameter model with 128 experts' },
-    { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 Distill Llama 70B', provider: 'DeepSeek', description: 'Distilled version of DeepSeek R1 with 70B parameters' },
-    { id: 'qwen/qwen3-32b', name: 'Qwen3 32B', provider: 'Qwen', description: 'Latest Qwen model with 32B parameters' },
-    { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', provider: 'Moonshot AI', description: 'Kimi K2 instruction-following model' }
-  ]);
-  const [selectedModel, setSelectedModel] = useState('openai/gpt-oss-120b');
+  // Model of the reply being streamed, which a regenerate can set apart from selectedModel
+  const [streamingModel, setStreamingModel] = useState<string | null>(null);
+  const { models: availableModels } = useModelRegistry();
+  const [selectedModel, setSelectedModel] = useState(() => getDefaultModelId(modelRegistry.getState().models));
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Replies to queued messages generated off screen
+  const backgroundControllersRef = useRef(new Set<AbortController>());
+  const messageTreeRef = useRef(messageTree);
+  // Threads of conversations opened this session, keyed by conversation id
+  const conversationTreesRef = useRef<Record<string, MessageTree>>({});
+  const pendingDeletesRef = useRef<Record<string, PendingDelete>>({});
+  // Paging position of each conversation's stored history
+  const historyCursorsRef = useRef<Record<string, HistoryCursor>>({});
+  const openedConversationRef = useRef<string | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
-  // Load available models on mount
-  useEffect(() => {
-    const loadModels = async () => {
-      try {
-        const data = await chatAPI.getModels();
-        setAvailableModels(data.models);
-        
-        // Set recommended model as default
-        const recommended = data.models.find(m => m.recommended);
-        if (recommended) {
-          setSelectedModel(recommended.id);
-        }
-      } catch (error) {
-        console.error('Failed to load models:', error);
-      }
-    };
+  // The visible thread is the active branch of the message tree
+  const messages = useMemo(() => getActivePath(messageTree), [messageTree]);
 
-    loadModels();
+  // Apply a tree update synchronously so callbacks always see the latest tree
+  const updateTree = useCallback((update: (tree: MessageTree) => MessageTree) => {
+    messageTreeRef.current = update(messageTreeRef.current);
+    setMessageTree(messageTreeRef.current);
   }, []);
 
+  // Fall back to the default model when the registry no longer offers the
+  // selected one (e.g. the cached list was replaced by the backend's)
+  useEffect(() => {
+    if (!availableModels.some(model => model.id === selectedModel)) {
+      setSelectedModel(getDefaultModelId(availableModels));
+    }
+  }, [availableModels, selectedModel]);
+
   // Load conversations
   const loadConversations = useCallback(async () => {
+    setIsLoadingConversations(true);
     try {
-      const data = await chatAPI.getConversations();
+      const data = await store.getConversations();
       setConversations(data);
     } catch (error) {
       console.error('Failed to load conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
     }
-  }, []);
+  }, [store]);
 
-  // Send message with enhanced streaming
-  const sendMessage = useCallback(async (content: string, conversationId?: string) => {
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      content,
-      role: 'user',
-      timestamp: new Date()
-    };
+  // Guest conversations exist only in IndexedDB, so every message is saved there
+  const persistMessage = useCallback((conversationId: string | undefined, message: Message) => {
+    if (!guest || !conversationId) return;
+    guestStore.saveMessage(conversationId, message).catch(error => {
+      console.error('Failed to save message locally:', error);
+    });
+  }, [guest]);
 
-    setMessages(prev => [...prev, userMessage]);
+  // Stream an assistant reply as a new child of the user message `parentId`.
+  // Resolves with the answer text once it completes, or null otherwise.
+  const streamReply = useCallback(async (
+    parentId: string,
+    content: string,
+    history: ChatHistoryMessage[],
+    conversationId?: string,
+    modelId: string = selectedModel,
+    tools?: string[]
+  ): Promise<string | null> => {
     setIsLoading(true);
     setCurrentResponse('');
+    setStreamingModel(modelId);
 
     const activeConvId = conversationId || activeConversationId || 'default';
 
+    // Any previous generation is superseded by this one
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const appendReply = (reply: Partial<Message> & { content: string }) => {
+      const message: Message = {
+        id: createMessageId(),
+        role: 'assistant',
+        timestamp: new Date(),
+        model: modelId,
+        ...reply
+      };
+      updateTree(tree => addMessage(tree, message, parentId));
+      persistMessage(conversationId || activeConversationId || undefined, { ...message, parentId });
+      setCurrentResponse('');
+      setIsLoading(false);
+    };
+
+    let completedAnswer: string | null = null;
+
     try {
       let assistantMessage = '';
-      
-      await chatAPI.streamChat(
-        activeConvId,
-        content,
-        selectedModel,
-        // On chunk received
-        (chunk: string) => {
-          assistantMessage += chunk;
-          setCurrentResponse(assistantMessage);
-        },
-        // On complete
-        (data: any) => {
-          const finalMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            content: assistantMessage,
-            role: 'assistant',
-            timestamp: new Date(),
-            model: selectedModel
-          };
-          
-          setMessages(prev => [...prev, finalMessage]);
-          setCurrentResponse('');
-          setIsLoading(false);
-        },
-        // On error
-        (error: string) => {
-          console.error('Chat error:', error);
-          const errorMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            content: `Error: ${error}`,
-            role: 'assistant',
-            timestamp: new Date(),
-            model: selectedModel
-          };
-          
-          setMessages(prev => [...prev, errorMessage]);
+
+      const onChunk = (chunk: string) => {
+        assistantMessage += chunk;
+        setCurrentResponse(assistantMessage);
+      };
+
+      const onComplete = (data: ChatStreamDone) => {
+        appendReply({ content: assistantMessage, toolsUsed: data.tools_used, sources: data.sources });
+        completedAnswer = assistantMessage;
+
+        // Keep the sidebar entry's preview and recency current
+        setConversations(prev => prev.map(conversation =>
+          conversation.id === activeConvId
+            ? { ...conversation, last_message: assistantMessage, updated_at: new Date().toISOString() }
+            : conversation
+        ));
+      };
+
+      const onError = (error: string) => {
+        console.error('Chat error:', error);
+        appendReply({ content: `Error: ${error}`, isError: true });
+      };
+
+      // Picked tools may rewrite the prompt and decide what the server runs
+      const request = await prepareToolRequest(tools, content, { isOnline: navigator.onLine, isGuest: guest });
+
+      await streamChatReply(
+        { conversationId: activeConvId, modelId, history, signal: controller.signal, guest, ...request },
+        { onChunk, onComplete, onError }
+      );
+
+      // Stopped by the user: keep whatever was generated so far
+      if (controller.signal.aborted && abortControllerRef.current === controller) {
+        if (assistantMessage) {
+          appendReply({ content: assistantMessage, stopped: true });
+        } else {
           setCurrentResponse('');
           setIsLoading(false);
         }
-      );
+      }
     } catch (error) {
       console.error('Failed to send message:', error);
       setIsLoading(false);
       setCurrentResponse('');
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+
+    return completedAnswer;
+  }, [selectedModel, activeConversationId, guest, updateTree, persistMessage]);
+
+  // Replace a conversation's provisional title with a model-written summary
+  const retitleConversation = useCallback(async (conversationId: string, prompt: string, answer: string) => {
+    try {
+      const title = cleanGeneratedTitle(await chatAPI.generateTitle(conversationId, prompt, answer, selectedModel));
+      if (!title) return;
+
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? { ...conversation, title } : conversation
+      ));
+      await chatAPI.updateConversation(conversationId, { title });
+    } catch (error) {
+      console.error('Failed to generate conversation title:', error);
+    }
+  }, [selectedModel]);
+
+  // Send message with enhanced streaming, continuing the active branch. The
+  // first message of a new chat creates its conversation on the server.
+  // `tools` are the ids of the composer tools picked ([] for none); left
+  // out, the server picks tools from the message.
+  const sendMessage = useCallback(async (content: string, conversationId?: string, tools?: string[]) => {
+    const parentId = getActiveLeafId(messageTreeRef.current);
+    const history = toHistory(getPathTo(messageTreeRef.current, parentId));
+    const userMessage: Message = {
+      id: createMessageId(),
+      content,
+      role: 'user',
+      timestamp: new Date(),
+      tools
+    };
+
+    updateTree(tree => addMessage(tree, userMessage, parentId));
+
+    let targetConversationId = conversationId || activeConversationId || undefined;
+    let isFirstExchange = false;
+
+    if (!targetConversationId) {
+      setIsLoading(true);
+      try {
+        const created = await store.createConversation(provisionalTitle(content));
+        setConversations(prev => [created, ...prev.filter(conversation => conversation.id !== created.id)]);
+        openedConversationRef.current = created.id;
+        setActiveConversationId(created.id);
+        targetConversationId = created.id;
+        isFirstExchange = true;
+      } catch (error) {
+        console.error('Failed to create conversation:', error);
+      }
+    }
+
+    persistMessage(targetConversationId, { ...userMessage, parentId });
+    const answer = await streamReply(userMessage.id, content, history, targetConversationId, undefined, tools);
+
+    // Titles are written by the server, which guests have no conversations on
+    if (isFirstExchange && targetConversationId && answer && !guest) {
+      retitleConversation(targetConversationId, content, answer);
+    }
+  }, [activeConversationId, guest, store, streamReply, retitleConversation, updateTree, persistMessage]);
+
+  // Send a message queued offline into a conversation that is not on screen
+  // (null for a new chat, which is created). The thread is loaded if this
+  // session has not opened it yet; the reply is generated without being
+  // streamed to the screen. The message and its reply are added to the
+  // thread only once the reply has come back, so a failed send can be retried.
+  const sendInBackground = useCallback(async (
+    conversationId: string | null,
+    content: string,
+    tools?: string[]
+  ): Promise<QueuedSendResult> => {
+    let targetId = conversationId;
+    let tree = targetId ? conversationTreesRef.current[targetId] : undefined;
+
+    try {
+      if (!targetId) {
+        const created = await store.createConversation(provisionalTitle(content));
+        setConversations(prev => [created, ...prev.filter(conversation => conversation.id !== created.id)]);
+        targetId = created.id;
+        tree = createMessageTree();
+      } else if (!tree) {
+        const page = await store.getMessages(targetId, { limit: HISTORY_PAGE_SIZE });
+        historyCursorsRef.current[targetId] = {
+          oldestId: page.messages[0]?.id ?? null,
+          hasMore: page.hasMore,
+          loaded: page.messages
+        };
+        tree = mergeStoredMessages(createMessageTree(), page.messages);
+      }
+    } catch (error) {
+      console.error('Failed to open conversation for queued message:', error);
+      return { conversationId: targetId, sent: false };
+    }
+
+    const conversation = targetId;
+    // The user may open the conversation while its reply is generated
+    const addToThread = (message: Message, parentId: string | null) => {
+      if (openedConversationRef.current === conversation) {
+        updateTree(current => addMessage(current, message, parentId));
+      } else {
+        conversationTreesRef.current[conversation] = addMessage(
+          conversationTreesRef.current[conversation] ?? tree ?? createMessageTree(),
+          message,
+          parentId
+        );
+      }
+      persistMessage(conversation, { ...message, parentId });
+    };
+
+    const parentId = getActiveLeafId(tree);
+    const history = toHistory(getPathTo(tree, parentId));
+    const userMessage: Message = { id: createMessageId(), content, role: 'user', timestamp: new Date(), tools };
+    const controller = new AbortController();
+    backgroundControllersRef.current.add(controller);
+
+    let answer = '';
+    // Set by the stream's callbacks
+    let reply = null as (Partial<Message> & { content: string }) | null;
+    try {
+      const request = await prepareToolRequest(tools, content, { isOnline: navigator.onLine, isGuest: guest });
+      await streamChatReply(
+        { conversationId: conversation, modelId: selectedModel, history, signal: controller.signal, guest, ...request },
+        {
+          onChunk: chunk => { answer += chunk; },
+          onComplete: data => { reply = { content: answer, toolsUsed: data.tools_used, sources: data.sources }; },
+          onError: error => { reply = { content: `Error: ${error}`, isError: true }; }
+        }
+      );
+    } catch (error) {
+      console.error('Failed to send queued message:', error);
+    } finally {
+      backgroundControllersRef.current.delete(controller);
+    }
+
+    // Without an answer the message stays queued, so the thread is left as it was
+    if (!reply || reply.isError || controller.signal.aborted) {
+      if (reply?.isError) console.error('Failed to send queued message:', reply.content);
+      return { conversationId: conversation, sent: false };
+    }
+
+    addToThread(userMessage, parentId);
+    addToThread({ id: createMessageId(), role: 'assistant', timestamp: new Date(), model: selectedModel, ...reply }, userMessage.id);
+    if (answer) {
+      setConversations(prev => prev.map(item =>
+        item.id === conversation ? { ...item, last_message: answer, updated_at: new Date().toISOString() } : item
+      ));
+      if (!conversationId && !guest) retitleConversation(conversation, content, answer);
+    }
+
+    return { conversationId: conversation, sent: true };
+  }, [guest, selectedModel, store, updateTree, persistMessage, retitleConversation]);
+
+  // Ask again for the reply `messageId`, optionally with a different model;
+  // the new answer becomes a sibling branch of the old one
+  const regenerateMessage = useCallback(async (messageId: string, modelId?: string) => {
+    const tree = messageTreeRef.current;
+    const reply = tree.messages[messageId];
+    const prompt = reply?.parentId ? tree.messages[reply.parentId] : undefined;
+    if (!prompt) return;
+
+    const history = toHistory(getPathTo(tree, prompt.parentId ?? null));
+    await streamReply(prompt.id, prompt.content, history, undefined, modelId, prompt.tools);
+  }, [streamReply]);
+
+  // Resend an earlier user message with new content as a sibling branch,
+  // asking for the same tools
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const tree = messageTreeRef.current;
+    const original = tree.messages[messageId];
+    if (!original || original.role !== 'user') return;
+
+    const parentId = original.parentId ?? null;
+    const history = toHistory(getPathTo(tree, parentId));
+    const userMessage: Message = {
+      id: createMessageId(),
+      content,
+      role: 'user',
+      timestamp: new Date(),
+      tools: original.tools
+    };
+
+    updateTree(current => addMessage(current, userMessage, parentId));
+    persistMessage(activeConversationId ?? undefined, { ...userMessage, parentId });
+    await streamReply(userMessage.id, content, history, undefined, undefined, original.tools);
+  }, [activeConversationId, streamReply, updateTree, persistMessage]);
+
+  // Switch the branch shown at `messageId` to its previous/next sibling
+  const switchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    updateTree(tree => selectSibling(tree, messageId, direction));
+  }, [updateTree]);
+
+  const getBranchInfo = useCallback(
+    (messageId: string) => getSiblingInfo(messageTree, messageId),
+    [messageTree]
+  );
+
+  // Optimistically rate an assistant message (null clears the rating)
+  const rateMessage = useCallback(async (messageId: string, rating: MessageFeedback | null) => {
+    const message = messageTreeRef.current.messages[messageId];
+    if (!message || !activeConversationId) return false;
+
+    const previous = message.feedback;
+    updateTree(tree => updateMessage(tree, messageId, { feedback: rating ?? undefined }));
+
+    try {
+      await store.submitFeedback(activeConversationId, messageId, rating);
+      return true;
+    } catch (error) {
+      console.error('Failed to send feedback:', error);
+      updateTree(tree => updateMessage(tree, messageId, { feedback: previous }));
+      return false;
+    }
+  }, [activeConversationId, store, updateTree]);
+
+  // Stop the in-flight generation, keeping the partial answer
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Abort any in-flight stream when the component using the hook unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Replies to queued messages stop on unmount too, and when the user signs
+  // out, since they would land in the next user's view
+  useEffect(() => {
+    const controllers = backgroundControllersRef.current;
+    const abortAll = () => controllers.forEach(controller => controller.abort());
+    const unsubscribe = sessionManager.subscribe(event => {
+      if (event.type === 'logged-out') abortAll();
+    });
+    return () => {
+      unsubscribe();
+      abortAll();
+    };
+  }, []);
+
+  // Clear the visible thread (e.g. when starting a new chat)
+  const clearMessages = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    updateTree(() => createMessageTree());
+    setIsLoading(false);
+    setCurrentResponse('');
+  }, [updateTree]);
+
+  // Switch the visible thread to another conversation (null for a fresh chat).
+  // Threads already opened this session are kept; others are fetched from
+  // the server, newest page first.
+  const openConversation = useCallback(async (conversationId: string | null) => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    setCurrentResponse('');
+
+    if (activeConversationId) {
+      conversationTreesRef.current[activeConversationId] = messageTreeRef.current;
+    }
+
+    openedConversationRef.current = conversationId;
+    setActiveConversationId(conversationId);
+
+    const cached = conversationId ? conversationTreesRef.current[conversationId] : undefined;
+    updateTree(() => cached || createMessageTree());
+    setHasOlderMessages(Boolean(conversationId && historyCursorsRef.current[conversationId]?.hasMore));
+    if (!conversationId || cached) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await store.getMessages(conversationId, { limit: HISTORY_PAGE_SIZE });
+      historyCursorsRef.current[conversationId] = {
+        oldestId: page.messages[0]?.id ?? null,
+        hasMore: page.hasMore,
+        loaded: page.messages
+      };
+      if (openedConversationRef.current !== conversationId) return;
+
+      // Branches are rebuilt from the stored parent ids; messages sent while
+      // the page was loading are kept
+      updateTree(tree => mergeStoredMessages(tree, page.messages));
+      setHasOlderMessages(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
     }
-  }, [selectedModel, activeConversationId]);
+  }, [activeConversationId, store, updateTree]);
+
+  // Fetch the page of history just above the oldest loaded message
+  const loadOlderMessages = useCallback(async () => {
+    const conversationId = activeConversationId;
+    const cursor = conversationId ? historyCursorsRef.current[conversationId] : undefined;
+    if (!conversationId || !cursor?.hasMore || isLoadingHistory) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await store.getMessages(conversationId, {
+        before: cursor.oldestId ?? undefined,
+        limit: HISTORY_PAGE_SIZE
+      });
+      const loaded = [...page.messages, ...cursor.loaded];
+      historyCursorsRef.current[conversationId] = {
+        oldestId: page.messages[0]?.id ?? cursor.oldestId,
+        hasMore: page.hasMore,
+        loaded
+      };
+      if (openedConversationRef.current !== conversationId) return;
+
+      // Replies whose prompt was on this page move under it
+      updateTree(tree => mergeStoredMessages(tree, loaded));
+      setHasOlderMessages(page.hasMore);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [activeConversationId, isLoadingHistory, store, updateTree]);
 
   // Create new conversation
   const createConversation = useCallback(async (title: string) => {
     try {
-      const newConv = await chatAPI.createConversation(title);
+      const newConv = await store.createConversation(title);
       setConversations(prev => [newConv, ...prev]);
+      openedConversationRef.current = newConv.id;
       setActiveConversationId(newConv.id);
-      setMessages([]); // Clear messages for new conversation
+      updateTree(() => createMessageTree()); // Clear messages for new conversation
       return newConv;
     } catch (error) {
       console.error('Failed to create conversation:', error);
       return null;
     }
+  }, [store, updateTree]);
+
+  // Optimistically apply a rename/pin/archive, rolling back if it fails
+  const updateConversation = useCallback(async (id: string, update: ConversationUpdate) => {
+    const previous = conversations.find(conversation => conversation.id === id);
+    if (!previous) return false;
+
+    setConversations(prev => prev.map(conversation =>
+      conversation.id === id ? { ...conversation, ...update } : conversation
+    ));
+
+    try {
+      await store.updateConversation(id, update);
+      return true;
+    } catch (error) {
+      console.error('Failed to update conversation:', error);
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === id ? previous : conversation
+      ));
+      return false;
+    }
+  }, [conversations, store]);
+
+  const renameConversation = useCallback(
+    (id: string, title: string) => updateConversation(id, { title }),
+    [updateConversation]
+  );
+
+  const pinConversation = useCallback(
+    (id: string, pinned: boolean) => updateConversation(id, { pinned }),
+    [updateConversation]
+  );
+
+  const archiveConversation = useCallback(
+    (id: string, archived: boolean) => updateConversation(id, { archived }),
+    [updateConversation]
+  );
+
+  const restoreConversation = useCallback((pending: PendingDelete) => {
+    setConversations(prev => {
+      const next = [...prev];
+      next.splice(Math.min(pending.index, next.length), 0, pending.conversation);
+      return next;
+    });
   }, []);
 
+  // Hide a conversation right away and delete it for real once the undo
+  // window (DELETE_UNDO_MS) has passed
+  const deleteConversation = useCallback((id: string) => {
+    const index = conversations.findIndex(conversation => conversation.id === id);
+    if (index === -1) return;
+
+    const conversation = conversations[index];
+    const timer = setTimeout(async () => {
+      delete pendingDeletesRef.current[id];
+      try {
+        await store.deleteConversation(id);
+        delete conversationTreesRef.current[id];
+      } catch (error) {
+        console.error('Failed to delete conversation:', error);
+        restoreConversation({ conversation, index, timer });
+      }
+    }, DELETE_UNDO_MS);
+
+    pendingDeletesRef.current[id] = { conversation, index, timer };
+    setConversations(prev => prev.filter(c => c.id !== id));
+
+    if (id === activeConversationId) {
+      openConversation(null);
+    }
+  }, [conversations, activeConversationId, store, openConversation, restoreConversation]);
+
+  const undoDeleteConversation = useCallback((id: string) => {
+    const pending = pendingDeletesRef.current[id];
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    delete pendingDeletesRef.current[id];
+    restoreConversation(pending);
+  }, [restoreConversation]);
+
+  // Deletes still waiting for their undo window are committed on unmount
+  // (or when switching between guest and account storage)
+  useEffect(() => {
+    const pendingDeletes = pendingDeletesRef.current;
+    return () => {
+      Object.entries(pendingDeletes).forEach(([id, pending]) => {
+        clearTimeout(pending.timer);
+        delete pendingDeletes[id];
+        store.deleteConversation(id).catch(error => {
+          console.error('Failed to delete conversation:', error);
+        });
+      });
+    };
+  }, [store]);
+
   return {
     messages,
     isLoading,
     currentResponse,
+    streamingModel,
     availableModels,
     selectedModel,
     setSelectedModel,
     conversations,
     activeConversationId,
     setActiveConversationId,
+    openConversation,
+    loadOlderMessages,
+    hasOlderMessages,
+    isLoadingHistory,
+    isLoadingConversations,
     sendMessage,
+    sendInBackground,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    getBranchInfo,
+    rateMessage,
+    stopGeneration,
+    clearMessages,
     createConversation,
-    loadConversations
+    loadConversations,
+    renameConversation,
+    pinConversation,
+    archiveConversation,
+    deleteConversation,
+    undoDeleteConversation
   };
 };
 
 // Hook for external API data
 export const useExternalData = () => {
-  const [searchResults, setSearchResults] = useState<any[]>([]);
-  const [cryptoData, setCryptoData] = useState<any>(null);
-  const [newsResults, setNewsResults] = useState<any[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [cryptoData, setCryptoData] = useState<Record<string, Ticker> | null>(null);
+  const [newsResults, setNewsResults] = useState<NewsItem[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [apiHealth, setApiHealth] = useState<any>(null);
+  const [apiHealth, setApiHealth] = useState<ApiHealth | null>(null);
+  // Last failure (rate limit, timeout, unexpected response shape, ...)
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const recordError = useCallback((failure: unknown) => {
+    setError(toApiError(failure));
+  }, []);
 
   // Search web
   const searchWeb = useCallback(async (query: string) => {
     setIsSearching(true);
     try {
       const data = await externalAPI.searchWeb(query);
-      setSearchResults(data.results || []);
+      setSearchResults(data.results);
+      setError(null);
       return data;
     } catch (error) {
       console.error('Web search failed:', error);
+      recordError(error);
       return null;
     } finally {
       setIsSearching(false);
     }
-  }, []);
+  }, [recordError]);
 
   // Search news
-  const searchNews = useCallback(async (query: string) => {
+  const searchNews = useCallback(async (query: string, count?: number) => {
     setIsSearching(true);
     try {
-      const data = await externalAPI.searchNews(query);
-      setNewsResults(data.results || []);
+      const data = await externalAPI.searchNews(query, count);
+      setNewsResults(data.results);
+      setError(null);
       return data;
     } catch (error) {
       console.error('News search failed:', error);
+      recordError(error);
       return null;
     } finally {
       setIsSearching(false);
     }
-  }, []);
+  }, [recordError]);
 
   // Get crypto data
   const getCryptoData = useCallback(async () => {
     try {
       const data = await externalAPI.getCryptoMarket();
+      if (isUpstreamError(data.data)) {
+        throw new Error(data.data.error);
+      }
       setCryptoData(data.data);
+      setError(null);
       return data;
     } catch (error) {
       console.error('Crypto data fetch failed:', error);
+      recordError(error);
       return null;
     }
-  }, []);
+  }, [recordError]);
 
   // Check API health
   const checkApiHealth = useCallback(async () => {
@@ -203,9 +830,10 @@ export const useExternalData = () => {
       return health;
     } catch (error) {
       console.error('API health check failed:', error);
+      recordError(error);
       return null;
     }
-  }, []);
+  }, [recordError]);
 
   // Load API health on mount
   useEffect(() => {
@@ -218,6 +846,7 @@ export const useExternalData = () => {
     newsResults,
     isSearching,
     apiHealth,
+    error,
     searchWeb,
     searchNews,
     getCryptoData,
@@ -225,78 +854,115 @@ export const useExternalData = () => {
   };
 };
 
-// Hook for WebSocket connection
-export const useWebSocket = (conversationId: string | null) => {
-  const [socket, setSocket] = useState<WebSocket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [messages, setMessages] = useState<any[]>([]);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
-  const connect = useCallback(() => {
-    if (!conversationId) return;
+// Hook for the crypto dashboard: market tickers and top movers, refreshed
+// every `refreshIntervalMs` (0 turns that off) while the tab is visible.
+// A failed refresh keeps the last data so it can be flagged as stale.
+export const useCryptoMarket = (refreshIntervalMs: number) => {
+  const [tickers, setTickers] = useState<Ticker[]>([]);
+  const [movers, setMovers] = useState<GainersLosers | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const inFlightRef = useRef(false);
 
-    const wsUrl = `${process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8000'}/api/chat/ws/${conversationId}`;
-    const ws = new WebSocket(wsUrl);
+  const refresh = useCallback(async () => {
+    // A slow response must not be overtaken by the next tick's request
+    if (inFlightRef.current) return;
+    inFlightRef.current = true;
+    setIsLoading(true);
+    try {
+      const [market, trending] = await Promise.all([
+        externalAPI.getCryptoMarket(),
+        externalAPI.getTrendingCrypto()
+      ]);
+      if (isUpstreamError(market.data)) {
+        throw new Error(market.data.error);
+      }
+      setTickers(Object.values(market.data));
+      // Movers are secondary; the table is still current without them
+      setMovers(isUpstreamError(trending.data) ? null : trending.data);
+      setUpdatedAt(Date.now());
+      setError(null);
+    } catch (error) {
+      console.error('Crypto market refresh failed:', error);
+      setError(toApiError(error));
+    } finally {
+      inFlightRef.current = false;
+      setIsLoading(false);
+    }
+  }, []);
 
-    ws.onopen = () => {
-      setIsConnected(true);
-      console.log('WebSocket connected');
-    };
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
 
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        setMessages(prev => [...prev, data]);
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
-      }
-    };
+  useEffect(() => {
+    if (refreshIntervalMs <= 0) return;
 
-    ws.onclose = () => {
-      setIsConnected(false);
-      console.log('WebSocket disconnected');
-      
-      // Attempt to reconnect after 3 seconds
-      reconnectTimeoutRef.current = setTimeout(connect, 3000);
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') refresh();
+    }, refreshIntervalMs);
+    // Catch up straight away when the tab comes back
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') refresh();
     };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
     };
+  }, [refreshIntervalMs, refresh]);
 
-    setSocket(ws);
-  }, [conversationId]);
+  return { tickers, movers, updatedAt, isLoading, error, refresh };
+};
 
-  const disconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-    }
-    
-    if (socket) {
-      socket.close();
-      setSocket(null);
-    }
-    setIsConnected(false);
-  }, [socket]);
+// Frames kept by useWebSocket; older ones are dropped
+const MAX_SOCKET_FRAMES = 200;
 
-  const sendMessage = useCallback((message: any) => {
-    if (socket && isConnected) {
-      socket.send(JSON.stringify(message));
-    }
-  }, [socket, isConnected]);
+// Hook for a conversation's chat WebSocket. Reconnects on its own after
+// drops; disconnect() stops it until connect() is called again.
+export const useWebSocket = (conversationId: string | null) => {
+  const [status, setStatus] = useState<ChatSocketStatus>('idle');
+  const [messages, setMessages] = useState<ChatServerFrame[]>([]);
+  const socketRef = useRef<ChatSocket | null>(null);
 
   useEffect(() => {
-    if (conversationId) {
-      connect();
-    }
-    
+    if (!conversationId) return;
+
+    const socket = createChatSocket(conversationId);
+    socketRef.current = socket;
+    const unsubscribeStatus = socket.onStatus(setStatus);
+    const unsubscribeFrames = socket.onFrame(frame => {
+      setMessages(prev => [...prev, frame].slice(-MAX_SOCKET_FRAMES));
+    });
+    socket.connect();
+
     return () => {
-      disconnect();
+      unsubscribeStatus();
+      unsubscribeFrames();
+      socket.close();
+      socketRef.current = null;
+      setStatus('idle');
+      setMessages([]);
     };
-  }, [conversationId, connect, disconnect]);
+  }, [conversationId]);
+
+  const connect = useCallback(() => {
+    socketRef.current?.connect();
+  }, []);
+
+  const disconnect = useCallback(() => {
+    socketRef.current?.close();
+  }, []);
+
+  // False when the frame could not be sent or buffered
+  const sendMessage = useCallback((frame: Exclude<ChatClientFrame, { type: 'auth' }>) => {
+    return socketRef.current?.send(frame) ?? false;
+  }, []);
 
   return {
-    isConnected,
+    status,
+    isConnected: status === 'open',
     messages,
     sendMessage,
     connect,
@@ -306,7 +972,7 @@ export const useWebSocket = (conversationId: string | null) => {
 
 // Hook for app capabilities
 export const useAppCapabilities = () => {
-  const [capabilities, setCapabilities] = useState<any>(null);
+  const [capabilities, setCapabilities] = useState<ChatCapabilities | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -328,4 +994,211 @@ export const useAppCapabilities = () => {
     capabilities,
     isLoading
   };
-};
\ No newline at end of file
+};
+// Hook for reading messages aloud with the browser's SpeechSynthesis API
+export const useSpeechSynthesis = (lang: string = 'en-US') => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsSupported('speechSynthesis' in window);
+    return () => {
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  const stop = useCallback(() => {
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    setSpeakingId(null);
+  }, []);
+
+  // Speak `text`, interrupting whatever was being read before
+  const speak = useCallback((id: string, text: string) => {
+    if (!('speechSynthesis' in window)) return;
+
+    const synth = window.speechSynthesis;
+    synth.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.onend = () => setSpeakingId(current => (current === id ? null : current));
+    utterance.onerror = event => {
+      if (event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.error('Speech synthesis error:', event.error);
+      }
+      setSpeakingId(current => (current === id ? null : current));
+    };
+
+    setSpeakingId(id);
+    synth.speak(utterance);
+  }, [lang]);
+
+  return {
+    isSupported,
+    speakingId,
+    speak,
+    stop
+  };
+};
+
+// Hook for the browser's connectivity (navigator.onLine and its events)
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// Hook for the offline outbox. `queued` holds the open conversation's messages
+// (null for a new chat); `take` hands out the oldest message of any chat.
+export const useOutbox = (conversationId: string | null) => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  // Set while the first queued message of a new chat is creating it
+  const creatingChatRef = useRef(false);
+  // The queued message being sent
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItems(readOutbox());
+
+    // Another tab may queue or send messages too
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === OUTBOX_KEY) setItems(readOutbox());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (conversationId && creatingChatRef.current) {
+      creatingChatRef.current = false;
+      setItems(assignNewChatMessages(conversationId));
+    }
+  }, [conversationId]);
+
+  const queued = useMemo(() => getQueuedMessages(items, conversationId), [items, conversationId]);
+
+  const enqueue = useCallback((content: string, tools?: string[]) => {
+    setItems(enqueueMessage(conversationId, content, Date.now(), tools));
+  }, [conversationId]);
+
+  const remove = useCallback((id: string) => {
+    setItems(removeFromOutbox(id));
+  }, []);
+
+  // Mark the oldest queued message, of any conversation, as being sent and
+  // return it; null while another one is on its way. It stays queued until
+  // markSent, so a failed send loses nothing.
+  const take = useCallback((): OutboxItem | null => {
+    if (sendingId) return null;
+    const next = getNextQueued(items);
+    if (!next) return null;
+    // Sent from a new chat on screen, it creates the conversation shown next
+    if (next.conversationId === null && conversationId === null) creatingChatRef.current = true;
+    setSendingId(next.id);
+    return next;
+  }, [items, conversationId, sendingId]);
+
+  const markSent = useCallback((id: string) => {
+    setSendingId(null);
+    setItems(removeFromOutbox(id));
+  }, []);
+
+  // The message taken could not be sent; it is next in line again
+  const release = useCallback(() => setSendingId(null), []);
+
+  // Hand the rest of a new chat's queue to the conversation its first message created
+  const assignNewChat = useCallback((createdId: string) => {
+    setItems(assignNewChatMessages(createdId));
+  }, []);
+
+  return {
+    queued,
+    totalCount: items.length,
+    enqueue,
+    remove,
+    take,
+    markSent,
+    release,
+    assignNewChat
+  };
+};
+
+// Hook offering to move guest conversations into the account once signed in
+export const useGuestImport = (enabled: boolean) => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !GUEST_IMPORT_ENABLED || !isGuestStoreAvailable()) {
+      setPendingCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    guestStore.countConversations()
+      .then(count => {
+        if (!cancelled) setPendingCount(count);
+      })
+      .catch(error => {
+        console.error('Failed to read guest conversations:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const importAll = useCallback(async (): Promise<GuestImportResult | null> => {
+    setIsImporting(true);
+    try {
+      const result = await importGuestConversations();
+      // Failed conversations stay local and can be retried
+      setPendingCount(result.failed);
+      return result;
+    } catch (error) {
+      console.error('Failed to import guest conversations:', error);
+      return null;
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  // Hide the offer until the next visit
+  const dismiss = useCallback(() => setPendingCount(0), []);
+
+  return {
+    pendingCount,
+    isImporting,
+    importAll,
+    dismiss
+  };
+};
+
+// Hook for the auth session; follows refreshes, logouts and expiry from
+// this tab and any other open tab
+export const useSession = () => {
+  const [status, setStatus] = useState<SessionStatus>('anonymous');
+
+  useEffect(() => {
+    sessionManager.start();
+    setStatus(sessionManager.getStatus());
+    return sessionManager.subscribe(() => setStatus(sessionManager.getStatus()));
+  }, []);
+
+  const logout = useCallback(() => sessionManager.logout(), []);
+
+  return {
+    status,
+    logout
+  };
+};
@@ -0,0 +1,145 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { authAPI, clearConversationOverrides, toApiError, type User } from '@/lib/api';
+import { closeChatSocket } from '@/lib/chat-socket';
+import { clearDrafts, saveLastConversation } from '@/lib/drafts';
+import { clearOutbox } from '@/lib/outbox';
+import { sessionManager } from '@/lib/session';
+
+// 'expired' keeps the page mounted so the user's draft survives until they sign in again;
+// 'guest' chats without an account, keeping conversations in this browser
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated' | 'expired' | 'guest';
+
+// Set when a visitor chose to continue without an account
+const GUEST_MODE_KEY = 'guest_mode';
+
+interface AuthContextValue {
+  // Null while signed in if the account could not be loaded (server down);
+  // refreshUser tries again
+  user: User | null;
+  status: AuthStatus;
+  // Both resolve once signed in, with null when the account is still to be loaded
+  login: (username: string, password: string) => Promise<User | null>;
+  register: (email: string, username: string, password: string) => Promise<User | null>;
+  logout: () => void;
+  continueAsGuest: () => void;
+  refreshUser: () => Promise<void>;
+}
+
+const notProvided = () => Promise.reject(new Error('AuthProvider is missing'));
+
+// The default lets components render outside the provider (tests, isolated pages)
+const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  status: 'unauthenticated',
+  login: notProvided,
+  register: notProvided,
+  logout: () => {},
+  continueAsGuest: () => {},
+  refreshUser: async () => {}
+});
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+
+  const loadUser = useCallback(async () => {
+    if (!sessionManager.getAccessToken()) {
+      setUser(null);
+      if (sessionManager.getStatus() === 'expired') {
+        setStatus('expired');
+      } else {
+        setStatus(localStorage.getItem(GUEST_MODE_KEY) ? 'guest' : 'unauthenticated');
+      }
+      return;
+    }
+
+    try {
+      const currentUser = await authAPI.getCurrentUser();
+      setUser(currentUser);
+      setStatus('authenticated');
+    } catch (error) {
+      console.error('Failed to load current user:', error);
+      setUser(null);
+      // A rejected token has already expired the session; anything else
+      // (server down) leaves the stored session alone
+      setStatus(sessionManager.getStatus() === 'authenticated' ? 'authenticated' : 'unauthenticated');
+    }
+  }, []);
+
+  useEffect(() => {
+    sessionManager.start();
+    loadUser();
+
+    return sessionManager.subscribe(event => {
+      if (event.type === 'logged-out') {
+        // Unsent text and the last open chat must not carry over to the
+        // next person at this machine
+        clearDrafts();
+        clearOutbox();
+        saveLastConversation(null);
+        clearConversationOverrides();
+        closeChatSocket();
+        setUser(null);
+        setStatus('unauthenticated');
+      } else if (event.type === 'expired') {
+        setStatus('expired');
+      } else if (event.type === 'logged-in') {
+        // Another tab may have signed in as someone else
+        loadUser();
+      }
+    });
+  }, [loadUser]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    try {
+      await authAPI.login(username, password);
+    } catch (error) {
+      throw toApiError(error);
+    }
+    localStorage.removeItem(GUEST_MODE_KEY);
+    setStatus('authenticated');
+
+    // The tokens are stored, so the user is signed in even if the account
+    // cannot be loaded right now
+    try {
+      const currentUser = await authAPI.getCurrentUser();
+      setUser(currentUser);
+      return currentUser;
+    } catch (error) {
+      console.error('Failed to load current user:', error);
+      setUser(null);
+      return null;
+    }
+  }, []);
+
+  const register = useCallback(async (email: string, username: string, password: string) => {
+    try {
+      await authAPI.register(email, username, password);
+    } catch (error) {
+      throw toApiError(error);
+    }
+    return login(username, password);
+  }, [login]);
+
+  const logout = useCallback(() => {
+    authAPI.logout();
+  }, []);
+
+  const continueAsGuest = useCallback(() => {
+    localStorage.setItem(GUEST_MODE_KEY, '1');
+    setUser(null);
+    setStatus('guest');
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ user, status, login, register, logout, continueAsGuest, refreshUser: loadUser }),
+    [user, status, login, register, logout, continueAsGuest, loadUser]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+// Current user and auth actions from the nearest AuthProvider
+export const useAuth = () => useContext(AuthContext);
@@ -1,33 +1,141 @@
 // API Client for Checkmate Spec Preview
 import axios from 'axios';
+import { readEventStream } from './sse';
+import { API_BASE_URL } from './config';
+import { authorizedFetch, sessionManager } from './session';
+import { ApiError, AuthError, fromHttpStatus, toApiError } from './errors';
+import { DEFAULT_RETRY_POLICY, IDEMPOTENT_METHODS, getRetryDelayFor, sleep, type RetryPolicy } from './retry';
+import {
+  ApiHealthSchema,
+  CHAT_STREAM_EVENT_TYPES,
+  ChatCapabilitiesSchema,
+  ChatStreamEventSchema,
+  CryptoMarketResponseSchema,
+  CryptoPriceResponseSchema,
+  HealthResponseSchema,
+  ModelsResponseSchema,
+  NewsResponseSchema,
+  parseResponse,
+  SearchResponseSchema,
+  StatusResponseSchema,
+  TrendingCryptoResponseSchema,
+  type ApiHealth,
+  type ChatCapabilities,
+  type ChatSource,
+  type ChatStreamDone,
+  type ChatStreamEvent,
+  type CryptoMarketResponse,
+  type CryptoPriceResponse,
+  type HealthResponse,
+  type ModelsResponse,
+  type NewsResponse,
+  type SearchResponse,
+  type StatusResponse,
+  type TrendingCryptoResponse
+} from './schemas';
+
+export { ResponseValidationError, isUpstreamError } from './schemas';
+export {
+  ApiError,
+  AuthError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  toApiError
+} from './errors';
+export type { RetryPolicy } from './retry';
+export type {
+  ApiHealth,
+  ChatCapabilities,
+  ChatSource,
+  ChatStreamDone,
+  CryptoMarketResponse,
+  CryptoPriceResponse,
+  GainersLosers,
+  HealthResponse,
+  Mover,
+  NewsItem,
+  NewsResponse,
+  Price,
+  SearchResponse,
+  SearchResult,
+  StatusResponse,
+  Ticker,
+  TrendingCryptoResponse
+} from './schemas';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Retry policy overrides for this request; false disables retries
+    retry?: Partial<RetryPolicy> | false;
+    // Retries already made for this request
+    retryAttempt?: number;
+    // Don't refresh the session on a 401 (login, where 401 means bad credentials)
+    skipAuthRefresh?: boolean;
+    // Already retried once after refreshing the session
+    authRetried?: boolean;
+  }
+}
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+// Default per-request timeout; slow endpoints override it
+const DEFAULT_TIMEOUT_MS = 15000;
+// Searches wait on Brave Search, which can be slow
+const SEARCH_TIMEOUT_MS = 20000;
+// Health checks should fail fast rather than hang a status badge
+const HEALTH_TIMEOUT_MS = 5000;
 
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
+  timeout: DEFAULT_TIMEOUT_MS,
+  retry: DEFAULT_RETRY_POLICY,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Request interceptor to add auth token
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('access_token');
+// Request interceptor to add auth token, refreshing it first if it is about
+// to expire (concurrent requests wait on the same refresh)
+apiClient.interceptors.request.use(async (config) => {
+  const token = config.skipAuthRefresh
+    ? sessionManager.getAccessToken()
+    : await sessionManager.getValidAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 });
 
-// Response interceptor for error handling
+// Response interceptor: retry transient failures of idempotent requests with
+// backoff, then reject with a typed ApiError
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('access_token');
-      window.location.href = '/login';
+  async (error) => {
+    const apiError = toApiError(error);
+    const config = axios.isAxiosError(error) ? error.config : undefined;
+
+    if (config && config.retry !== false && IDEMPOTENT_METHODS.includes(config.method ?? 'get')) {
+      const attempt = config.retryAttempt ?? 0;
+      const policy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+      const delay = getRetryDelayFor(apiError, attempt, policy);
+      if (delay !== null) {
+        await sleep(delay);
+        return apiClient({ ...config, retryAttempt: attempt + 1 });
+      }
+    }
+
+    // Refresh once and replay; if that fails the session has expired, which
+    // the UI handles without navigating away
+    if (apiError instanceof AuthError && apiError.status === 401 && config && !config.skipAuthRefresh) {
+      if (!config.authRetried && sessionManager.hasRefreshToken()) {
+        const rejected = String(config.headers?.Authorization ?? '').replace(/^Bearer /, '') || null;
+        const token = await sessionManager.refresh(rejected).catch(() => null);
+        if (token) return apiClient({ ...config, authRetried: true });
+      }
+      sessionManager.expire();
     }
-    return Promise.reject(error);
+    return Promise.reject(apiError);
   }
 );
 
@@ -38,6 +146,34 @@ export interface Message {
   role: 'user' | 'assistant';
   timestamp: Date;
   model?: string;
+  isError?: boolean;
+  stopped?: boolean;
+  parentId?: string | null;
+  feedback?: MessageFeedback;
+  // Tools the user asked for with this message (see lib/chat-tools)
+  tools?: string[];
+  // Tools whose data went into this answer
+  toolsUsed?: string[];
+  // Pages the answer can cite as [1], [2], ...
+  sources?: ChatSource[];
+}
+
+// A reviewer's rating of an assistant message
+export type MessageFeedback = 'up' | 'down';
+
+// Prior turns sent along with a chat request
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StreamChatOptions {
+  signal?: AbortSignal;
+  history?: ChatHistoryMessage[];
+  // Stream through the guest endpoint, without credentials
+  guest?: boolean;
+  // Tools to answer with; omitted, the server picks them from the message
+  tools?: string[];
 }
 
 export interface Conversation {
@@ -45,20 +181,64 @@ export interface Conversation {
   title: string;
   last_message?: string;
   created_at: string;
+  updated_at?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  // Kept in this browser only (guest mode), not on the server
+  local?: boolean;
+}
+
+// One page of stored history, oldest message first
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export interface MessagePageOptions {
+  before?: string;
+  limit?: number;
 }
 
+// Message as stored by the backend
+interface StoredMessage {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  model_id?: string | null;
+  parent_id?: string | null;
+  created_at: string;
+  feedback?: MessageFeedback | null;
+}
+
+// Message to store in a conversation, e.g. when importing guest history
+export interface NewMessage {
+  content: string;
+  role: 'user' | 'assistant';
+  model_id?: string;
+  parent_id?: string | null;
+}
+
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'pinned' | 'archived'>>;
+
 export interface AIModel {
   id: string;
   name: string;
   provider: string;
   description: string;
+  // Maximum tokens of prompt plus reply
+  context_window?: number;
   features?: string[];
   recommended?: boolean;
+  // False when the server cannot serve the model right now
+  available?: boolean;
+  unavailable_reason?: string;
 }
 
 export interface AuthResponse {
   access_token: string;
   token_type: string;
+  refresh_token?: string;
+  expires_in?: number;
 }
 
 export interface User {
@@ -69,6 +249,35 @@ export interface User {
   created_at: string;
 }
 
+// Conversation changes the backend could not store yet, kept in localStorage
+// and merged into getConversations so the sidebar stays consistent
+const CONVERSATION_OVERRIDES_KEY = 'conversation_overrides';
+
+type ConversationOverride = ConversationUpdate & { deleted?: boolean };
+
+const readConversationOverrides = (): Record<string, ConversationOverride> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONVERSATION_OVERRIDES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveConversationOverride = (id: string, override: ConversationOverride) => {
+  const overrides = readConversationOverrides();
+  overrides[id] = { ...overrides[id], ...override };
+  localStorage.setItem(CONVERSATION_OVERRIDES_KEY, JSON.stringify(overrides));
+};
+
+// Forget every pending change, e.g. when the user signs out
+export const clearConversationOverrides = () => {
+  localStorage.removeItem(CONVERSATION_OVERRIDES_KEY);
+};
+
+// True when the backend does not implement an endpoint (yet)
+const isUnsupportedOperation = (error: unknown) =>
+  error instanceof ApiError && [404, 405, 501].includes(error.status ?? 0);
+
 // Authentication API
 export const authAPI = {
   login: async (username: string, password: string): Promise<AuthResponse> => {
@@ -77,8 +286,10 @@ export const authAPI = {
     formData.append('password', password);
     
     const response = await apiClient.post('/api/auth/token', formData, {
-      headers: { 'Content-Type': 'multipart/form-data' }
+      headers: { 'Content-Type': 'multipart/form-data' },
+      skipAuthRefresh: true
     });
+    sessionManager.setTokens(response.data);
     return response.data;
   },
 
@@ -94,6 +305,11 @@ export const authAPI = {
   getCurrentUser: async (): Promise<User> => {
     const response = await apiClient.get('/api/auth/me');
     return response.data;
+  },
+
+  // Sign out here and in every other open tab
+  logout: () => {
+    sessionManager.logout();
   }
 };
 
@@ -101,7 +317,69 @@ export const authAPI = {
 export const chatAPI = {
   getConversations: async (): Promise<Conversation[]> => {
     const response = await apiClient.get('/api/chat/conversations');
-    return response.data;
+    const overrides = readConversationOverrides();
+    return (response.data as Conversation[])
+      .filter(conversation => !overrides[conversation.id]?.deleted)
+      .map(conversation => ({ ...conversation, ...overrides[conversation.id] }));
+  },
+
+  // Page backwards through a conversation's stored messages: `before` is the
+  // id of the oldest message already loaded
+  getMessages: async (conversationId: string, { before, limit = 30 }: MessagePageOptions = {}): Promise<MessagePage> => {
+    const response = await apiClient.get(`/api/chat/conversations/${conversationId}/messages`, {
+      params: { before, limit }
+    });
+    const data = response.data as StoredMessage[] | { messages: StoredMessage[]; has_more?: boolean };
+    const stored = Array.isArray(data) ? data : data.messages;
+    const hasMore = Array.isArray(data) ? stored.length >= limit : Boolean(data.has_more);
+
+    return {
+      messages: stored.map(message => ({
+        id: message.id,
+        content: message.content,
+        role: message.role,
+        timestamp: new Date(message.created_at),
+        model: message.model_id ?? undefined,
+        feedback: message.feedback ?? undefined,
+        parentId: message.parent_id ?? null
+      })),
+      hasMore
+    };
+  },
+
+  // Rename, pin or archive a conversation. Falls back to a local-only change
+  // when the backend does not support updates yet.
+  updateConversation: async (id: string, update: ConversationUpdate): Promise<ConversationUpdate> => {
+    try {
+      const response = await apiClient.patch(`/api/chat/conversations/${id}`, update);
+      return response.data;
+    } catch (error) {
+      if (!isUnsupportedOperation(error)) throw error;
+      saveConversationOverride(id, update);
+      return update;
+    }
+  },
+
+  deleteConversation: async (id: string): Promise<void> => {
+    try {
+      await apiClient.delete(`/api/chat/conversations/${id}`);
+    } catch (error) {
+      if (!isUnsupportedOperation(error)) throw error;
+      saveConversationOverride(id, { deleted: true });
+    }
+  },
+
+  // Rate an assistant message; a null rating clears an earlier one
+  submitFeedback: async (
+    conversationId: string,
+    messageId: string,
+    rating: MessageFeedback | null,
+    comment?: string
+  ): Promise<void> => {
+    await apiClient.post(`/api/chat/conversations/${conversationId}/messages/${messageId}/feedback`, {
+      rating,
+      comment
+    });
   },
 
   createConversation: async (title: string): Promise<Conversation> => {
@@ -109,136 +387,173 @@ export const chatAPI = {
     return response.data;
   },
 
-  getModels: async (): Promise<{ models: AIModel[]; external_apis: Record<string, string> }> => {
+  // Store a message without generating a reply; returns it with its server id
+  addMessage: async (conversationId: string, message: NewMessage): Promise<Message> => {
+    const response = await apiClient.post(`/api/chat/conversations/${conversationId}/messages`, message);
+    const stored = response.data as StoredMessage;
+    return {
+      id: stored.id,
+      content: stored.content,
+      role: stored.role,
+      timestamp: new Date(stored.created_at),
+      model: stored.model_id ?? undefined,
+      parentId: stored.parent_id ?? null
+    };
+  },
+
+  // Ask the model for a short title summarizing the first exchange. Without
+  // a title endpoint this returns '' and the provisional title stays; asking
+  // through streamChat would store the request in the conversation.
+  generateTitle: async (conversationId: string, prompt: string, answer: string, modelId: string): Promise<string> => {
+    try {
+      const response = await apiClient.post(`/api/chat/conversations/${conversationId}/title`, {
+        prompt,
+        answer,
+        model_id: modelId
+      });
+      return response.data.title;
+    } catch (error) {
+      if (!isUnsupportedOperation(error)) throw error;
+      return '';
+    }
+  },
+
+  getModels: async (): Promise<ModelsResponse> => {
     const response = await apiClient.get('/api/chat/models');
-    return response.data;
+    return parseResponse(ModelsResponseSchema, response.data, 'GET /api/chat/models');
   },
 
-  getChatCapabilities: async (): Promise<{
-    features: string[];
-    models_available: number;
-    external_apis: number;
-    real_time_data: boolean;
-    streaming: boolean;
-  }> => {
+  getChatCapabilities: async (): Promise<ChatCapabilities> => {
     const response = await apiClient.get('/api/chat/capabilities');
-    return response.data;
+    return parseResponse(ChatCapabilitiesSchema, response.data, 'GET /api/chat/capabilities');
   },
 
-  // Streaming chat with Server-Sent Events
+  // Streaming chat with Server-Sent Events. Aborting `options.signal` cancels
+  // the request and resolves quietly without calling any callback.
   streamChat: async (
     conversationId: string,
     message: string,
     modelId: string,
     onChunk: (chunk: string) => void,
-    onComplete: (data: any) => void,
-    onError: (error: string) => void
+    onComplete: (data: ChatStreamDone) => void,
+    onError: (error: string) => void,
+    options: StreamChatOptions = {}
   ): Promise<void> => {
+    const { signal, history = [], guest = false, tools } = options;
     try {
-      const response = await fetch(`${API_BASE_URL}/api/chat/conversations/${conversationId}/chat`, {
+      // Guests have no session, so their requests skip the auth path
+      const send = guest ? fetch : authorizedFetch;
+      const url = guest
+        ? `${API_BASE_URL}/api/chat/guest/chat`
+        : `${API_BASE_URL}/api/chat/conversations/${conversationId}/chat`;
+      const response = await send(url, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('access_token')}`,
         },
         body: JSON.stringify({
           content: message,
           role: 'user',
-          model_id: modelId
+          model_id: modelId,
+          history,
+          tools
         })
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw fromHttpStatus(response.status, body, response.headers.get('Retry-After'), 'POST chat stream');
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('No response body reader available');
+      if (!response.body) {
+        throw new Error('No response body available');
       }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.type === 'content') {
-                onChunk(data.content);
-              } else if (data.type === 'done') {
-                onComplete(data);
-                return;
-              } else if (data.type === 'error') {
-                onError(data.content);
-                return;
-              }
-            } catch (e) {
-              console.warn('Failed to parse SSE data:', line);
-            }
-          }
+      for await (const event of readEventStream(response.body)) {
+        let payload: Record<string, unknown>;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          console.warn('Failed to parse SSE data:', event.data);
+          continue;
+        }
+
+        // Prefer the payload's own type, falling back to the SSE event name
+        const type = payload.type ?? event.event;
+        if (!CHAT_STREAM_EVENT_TYPES.includes(type as ChatStreamEvent['type'])) continue;
+
+        const data = parseResponse(ChatStreamEventSchema, { ...payload, type }, 'chat stream');
+        if (data.type === 'content') {
+          onChunk(data.content);
+        } else if (data.type === 'done') {
+          onComplete(data);
+          return;
+        } else {
+          onError(data.content || 'Unknown error occurred');
+          return;
         }
       }
+
+      if (signal?.aborted) return;
+      onError('Connection closed before the response completed');
     } catch (error) {
-      onError(error instanceof Error ? error.message : 'Unknown error occurred');
+      if (signal?.aborted) return;
+      onError(toApiError(error, 'POST chat stream').message);
     }
   }
 };
 
 // External APIs
 export const externalAPI = {
-  searchWeb: async (query: string, count: number = 10) => {
+  searchWeb: async (query: string, count: number = 10): Promise<SearchResponse> => {
     const response = await apiClient.get('/api/external/search', {
-      params: { query, count }
+      params: { query, count },
+      timeout: SEARCH_TIMEOUT_MS
     });
-    return response.data;
+    return parseResponse(SearchResponseSchema, response.data, 'GET /api/external/search');
   },
 
-  searchNews: async (query: string, count: number = 5) => {
+  searchNews: async (query: string, count: number = 5): Promise<NewsResponse> => {
     const response = await apiClient.get('/api/external/search/news', {
-      params: { query, count }
+      params: { query, count },
+      timeout: SEARCH_TIMEOUT_MS
     });
-    return response.data;
+    return parseResponse(NewsResponseSchema, response.data, 'GET /api/external/search/news');
   },
 
-  getCryptoMarket: async () => {
+  getCryptoMarket: async (): Promise<CryptoMarketResponse> => {
     const response = await apiClient.get('/api/external/crypto/market');
-    return response.data;
+    return parseResponse(CryptoMarketResponseSchema, response.data, 'GET /api/external/crypto/market');
   },
 
-  getCryptoPrice: async (symbol: string) => {
+  getCryptoPrice: async (symbol: string): Promise<CryptoPriceResponse> => {
     const response = await apiClient.get(`/api/external/crypto/price/${symbol}`);
-    return response.data;
+    return parseResponse(CryptoPriceResponseSchema, response.data, 'GET /api/external/crypto/price');
   },
 
-  getTrendingCrypto: async () => {
+  getTrendingCrypto: async (): Promise<TrendingCryptoResponse> => {
     const response = await apiClient.get('/api/external/crypto/trending');
-    return response.data;
+    return parseResponse(TrendingCryptoResponseSchema, response.data, 'GET /api/external/crypto/trending');
   },
 
-  getApiHealth: async () => {
-    const response = await apiClient.get('/api/external/health');
-    return response.data;
+  getApiHealth: async (): Promise<ApiHealth> => {
+    // Probes Brave and Binance live, so it keeps the default timeout
+    const response = await apiClient.get('/api/external/health', { retry: false });
+    return parseResponse(ApiHealthSchema, response.data, 'GET /api/external/health');
   }
 };
 
 // Health check
 export const healthAPI = {
-  checkHealth: async () => {
-    const response = await apiClient.get('/health');
-    return response.data;
+  checkHealth: async (): Promise<HealthResponse> => {
+    const response = await apiClient.get('/health', { timeout: HEALTH_TIMEOUT_MS, retry: false });
+    return parseResponse(HealthResponseSchema, response.data, 'GET /health');
   },
 
-  getStatus: async () => {
-    const response = await apiClient.get('/api/status');
-    return response.data;
+  getStatus: async (): Promise<StatusResponse> => {
+    const response = await apiClient.get('/api/status', { timeout: HEALTH_TIMEOUT_MS, retry: false });
+    return parseResponse(StatusResponseSchema, response.data, 'GET /api/status');
   }
 };
 
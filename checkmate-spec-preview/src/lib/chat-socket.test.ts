@@ -0,0 +1,192 @@
+import { closeChatSocket, createChatSocket, streamChatOverSocket } from './chat-socket';
+
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: unknown[] = [];
+  closedWith: number | undefined;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code?: number) {
+    this.closedWith = code;
+    this.readyState = 3;
+  }
+
+  // Server side
+  accept() {
+    this.readyState = 1;
+    this.onopen?.();
+    this.receive({ type: 'auth_ok' });
+  }
+
+  receive(frame: object) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  drop(code = 1006) {
+    this.readyState = 3;
+    this.onclose?.({ code });
+  }
+}
+
+const policy = { retries: Infinity, baseDelayMs: 1000, maxDelayMs: 4000, jitter: false };
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('createChatSocket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    localStorage.setItem('access_token', 'token-1');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('authenticates first and sends buffered frames once accepted', async () => {
+    const socket = createChatSocket('conv_1', { reconnectPolicy: policy });
+    socket.connect();
+    socket.send({ type: 'ping' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    const ws = latest();
+    expect(ws.url).toMatch(/\/api\/chat\/ws\/conv_1$/);
+    ws.readyState = 1;
+    ws.onopen?.();
+    expect(ws.sent).toEqual([{ type: 'auth', token: 'token-1' }]);
+
+    ws.receive({ type: 'auth_ok' });
+    expect(socket.getStatus()).toBe('open');
+    expect(ws.sent).toEqual([{ type: 'auth', token: 'token-1' }, { type: 'ping' }]);
+  });
+
+  it('reconnects with growing delays until closed on purpose', async () => {
+    const socket = createChatSocket('conv_1', { reconnectPolicy: policy });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(0);
+    latest().accept();
+
+    latest().drop();
+    expect(socket.getStatus()).toBe('reconnecting');
+    await jest.advanceTimersByTimeAsync(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    latest().drop();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    socket.close();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    expect(socket.getStatus()).toBe('closed');
+  });
+
+  it('drops a connection that stops answering pings', async () => {
+    const socket = createChatSocket('conv_1', { reconnectPolicy: policy, heartbeatIntervalMs: 100, heartbeatTimeoutMs: 50 });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(0);
+    const ws = latest();
+    ws.accept();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(ws.sent).toContainEqual({ type: 'ping' });
+    ws.receive({ type: 'pong' });
+    await jest.advanceTimersByTimeAsync(149);
+    expect(socket.getStatus()).toBe('open');
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(socket.getStatus()).toBe('reconnecting');
+    expect(ws.readyState).toBe(3);
+  });
+
+  it('gives up when the server rejects a refreshed token', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ status: 401, ok: false, json: async () => ({}) });
+    localStorage.setItem('refresh_token', 'refresh-1');
+    const socket = createChatSocket('conv_1', { reconnectPolicy: policy });
+    socket.connect();
+    await jest.advanceTimersByTimeAsync(0);
+
+    latest().drop(4401);
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(socket.getStatus()).toBe('closed');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+});
+
+describe('streamChatOverSocket', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    localStorage.setItem('access_token', 'token-1');
+  });
+
+  afterEach(() => {
+    closeChatSocket();
+    jest.useRealTimers();
+    localStorage.clear();
+  });
+
+  it('asks the server to stop generating when the reply is aborted', async () => {
+    const controller = new AbortController();
+    const onChunk = jest.fn();
+    const streaming = streamChatOverSocket('conv_1', 'Hi', 'model-a', onChunk, jest.fn(), jest.fn(), { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(0);
+    latest().accept();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const chat = latest().sent.find(frame => (frame as { type: string }).type === 'chat') as { request_id: string };
+    latest().receive({ type: 'ai_chunk', request_id: chat.request_id, content: 'Hel' });
+    controller.abort();
+    latest().receive({ type: 'ai_chunk', request_id: chat.request_id, content: 'lo' });
+
+    await expect(streaming).resolves.toBe(true);
+    expect(latest().sent).toContainEqual({ type: 'cancel', request_id: chat.request_id });
+    expect(onChunk).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to SSE for a while after the socket fails to connect', async () => {
+    const failed = streamChatOverSocket('conv_1', 'Hi', 'model-a', jest.fn(), jest.fn(), jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    latest().drop();
+    await expect(failed).resolves.toBe(false);
+
+    await expect(streamChatOverSocket('conv_1', 'Hi', 'model-a', jest.fn(), jest.fn(), jest.fn())).resolves.toBe(false);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    streamChatOverSocket('conv_1', 'Hi', 'model-a', jest.fn(), jest.fn(), jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it('tries the socket again once it is closed', async () => {
+    const failed = streamChatOverSocket('conv_1', 'Hi', 'model-a', jest.fn(), jest.fn(), jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    latest().drop();
+    await expect(failed).resolves.toBe(false);
+
+    closeChatSocket();
+    streamChatOverSocket('conv_1', 'Hi', 'model-a', jest.fn(), jest.fn(), jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
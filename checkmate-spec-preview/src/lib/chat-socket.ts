@@ -0,0 +1,407 @@
+// Chat WebSocket for Checkmate Spec Preview
+// One connection per conversation. The socket authenticates with the
+// session's access token in its first frame, reconnects with capped
+// exponential backoff after drops, pings to catch connections that died
+// without closing, and holds frames sent while reconnecting in a bounded
+// buffer until the server has accepted the token again.
+import type { ChatHistoryMessage, StreamChatOptions } from './api';
+import { WS_BASE_URL } from './config';
+import { createMessageId } from './message-tree';
+import { getRetryDelay, type RetryPolicy } from './retry';
+import { ChatServerFrameSchema, type ChatServerFrame, type ChatStreamDone } from './schemas';
+import { sessionManager } from './session';
+
+// Close codes used by the server (see backend enhanced_chat_router.py)
+export const CLOSE_UNAUTHORIZED = 4401;
+export const CLOSE_PROTOCOL_ERROR = 4400;
+
+// Frames the client sends; the auth frame is sent by the socket itself
+export type ChatClientFrame =
+  | { type: 'auth'; token: string }
+  | { type: 'ping' }
+  | { type: 'chat'; request_id: string; content: string; model_id: string; history: ChatHistoryMessage[]; tools?: string[] }
+  | { type: 'cancel'; request_id: string };
+
+export type ChatSocketStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// `retries` is ignored: a socket keeps reconnecting until it is closed
+export const RECONNECT_POLICY: RetryPolicy = {
+  retries: Infinity,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true
+};
+
+export interface ChatSocketOptions {
+  reconnectPolicy?: RetryPolicy;
+  // Ping this often once authenticated
+  heartbeatIntervalMs?: number;
+  // Drop the connection if nothing arrives this long after a ping
+  heartbeatTimeoutMs?: number;
+  // Frames kept while disconnected; the oldest are dropped past this
+  maxBufferedFrames?: number;
+}
+
+export interface ChatSocket {
+  connect: () => void;
+  // Close for good; no reconnect follows
+  close: () => void;
+  // Send now, or buffer until reconnected. False if the socket is closed.
+  send: (frame: Exclude<ChatClientFrame, { type: 'auth' }>) => boolean;
+  getStatus: () => ChatSocketStatus;
+  // Whether the server has accepted this socket's token at least once
+  hasConnected: () => boolean;
+  onFrame: (listener: (frame: ChatServerFrame) => void) => () => void;
+  onStatus: (listener: (status: ChatSocketStatus) => void) => () => void;
+}
+
+export const createChatSocket = (conversationId: string, options: ChatSocketOptions = {}): ChatSocket => {
+  const {
+    reconnectPolicy = RECONNECT_POLICY,
+    heartbeatIntervalMs = 25000,
+    heartbeatTimeoutMs = 10000,
+    maxBufferedFrames = 50
+  } = options;
+  const url = `${WS_BASE_URL}/api/chat/ws/${encodeURIComponent(conversationId)}`;
+
+  const frameListeners = new Set<(frame: ChatServerFrame) => void>();
+  const statusListeners = new Set<(status: ChatSocketStatus) => void>();
+  const buffer: ChatClientFrame[] = [];
+
+  let ws: WebSocket | null = null;
+  let status: ChatSocketStatus = 'idle';
+  let attempt = 0;
+  let closed = false;
+  let connected = false;
+  // Set after a 4401 led to a token refresh; a second 4401 ends the socket
+  let refreshedAfterReject = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let livenessTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setStatus = (next: ChatSocketStatus) => {
+    if (status === next) return;
+    status = next;
+    statusListeners.forEach(listener => listener(next));
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    if (livenessTimer) clearTimeout(livenessTimer);
+    heartbeatTimer = null;
+    livenessTimer = null;
+  };
+
+  // Any frame from the server proves the connection is alive
+  const markAlive = () => {
+    if (livenessTimer) clearTimeout(livenessTimer);
+    livenessTimer = null;
+  };
+
+  const startHeartbeat = (socket: WebSocket) => {
+    stopHeartbeat();
+    heartbeatTimer = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+      socket.send(JSON.stringify({ type: 'ping' }));
+      livenessTimer ??= setTimeout(() => {
+        // A dead connection may take minutes to report closing, so stop
+        // waiting for it and reconnect now
+        console.warn('Chat socket stopped responding, reconnecting');
+        detach(socket);
+        socket.close();
+        scheduleReconnect();
+      }, heartbeatTimeoutMs);
+    }, heartbeatIntervalMs);
+  };
+
+  const flush = (socket: WebSocket) => {
+    while (buffer.length > 0) {
+      socket.send(JSON.stringify(buffer.shift()));
+    }
+  };
+
+  const detach = (socket: WebSocket) => {
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    if (ws === socket) ws = null;
+    stopHeartbeat();
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    setStatus('reconnecting');
+    const delay = getRetryDelay(attempt, reconnectPolicy);
+    attempt += 1;
+    reconnectTimer = setTimeout(open, delay);
+  };
+
+  const handleClose = async (code: number, token: string) => {
+    if (closed) return;
+    setStatus('reconnecting');
+
+    if (code === CLOSE_UNAUTHORIZED) {
+      if (refreshedAfterReject) {
+        setStatus('closed');
+        return;
+      }
+      refreshedAfterReject = true;
+      const refreshed = await sessionManager.refresh(token).catch(() => null);
+      if (!refreshed) {
+        setStatus('closed');
+        return;
+      }
+    } else if (code === CLOSE_PROTOCOL_ERROR) {
+      console.error('Chat socket closed after a protocol error');
+    }
+
+    scheduleReconnect();
+  };
+
+  const open = async () => {
+    reconnectTimer = null;
+    if (closed) return;
+    if (status !== 'reconnecting') setStatus('connecting');
+
+    const token = await sessionManager.getValidAccessToken();
+    if (closed) return;
+    if (!token) {
+      // Nothing to authenticate with until the user signs in again
+      setStatus('closed');
+      return;
+    }
+
+    const socket = new WebSocket(url);
+    ws = socket;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'auth', token }));
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      markAlive();
+
+      let frame: ChatServerFrame;
+      try {
+        frame = ChatServerFrameSchema.parse(JSON.parse(event.data));
+      } catch {
+        console.warn('Ignoring malformed chat socket frame:', event.data);
+        return;
+      }
+
+      if (frame.type === 'auth_ok') {
+        attempt = 0;
+        connected = true;
+        refreshedAfterReject = false;
+        setStatus('open');
+        startHeartbeat(socket);
+        flush(socket);
+      }
+      if (frame.type === 'pong') return;
+
+      frameListeners.forEach(listener => listener(frame));
+    };
+
+    socket.onclose = (event: CloseEvent) => {
+      detach(socket);
+      handleClose(event.code, token);
+    };
+
+    // The browser reports no details here; onclose follows with the code
+    socket.onerror = () => {};
+  };
+
+  // Coming back online is a better moment to retry than the backoff timer
+  const handleOnline = () => {
+    if (status !== 'reconnecting' || !reconnectTimer) return;
+    clearTimeout(reconnectTimer);
+    attempt = 0;
+    open();
+  };
+
+  return {
+    connect: () => {
+      if (status !== 'idle' && status !== 'closed') return;
+      closed = false;
+      attempt = 0;
+      refreshedAfterReject = false;
+      if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+      open();
+    },
+
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      buffer.length = 0;
+      if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+      if (ws) {
+        const socket = ws;
+        detach(socket);
+        socket.close(1000);
+      }
+      setStatus('closed');
+    },
+
+    send: frame => {
+      if (closed || status === 'closed') return false;
+      if (status === 'open' && ws?.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(frame));
+        return true;
+      }
+      buffer.push(frame);
+      if (buffer.length > maxBufferedFrames) {
+        buffer.shift();
+        console.warn('Chat socket buffer full, dropped the oldest frame');
+      }
+      return true;
+    },
+
+    getStatus: () => status,
+
+    hasConnected: () => connected,
+
+    onFrame: listener => {
+      frameListeners.add(listener);
+      return () => {
+        frameListeners.delete(listener);
+      };
+    },
+
+    onStatus: listener => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    }
+  };
+};
+
+// Chat replies over the socket
+
+// How long a reply waits for the socket to authenticate before using SSE
+const CONNECT_TIMEOUT_MS = 5000;
+// How long chat stays on SSE after a socket failed to connect
+const SOCKET_RETRY_AFTER_MS = 60000;
+
+// The socket of the conversation currently being chatted in
+let activeSocket: { conversationId: string; socket: ChatSocket } | null = null;
+// Set when a socket fails before ever authenticating: the server has no
+// WebSocket endpoint or something in between blocks it, or the network was
+// down. Chat uses SSE until then, and tries the socket again after.
+let socketUnavailableUntil = 0;
+
+const getConversationSocket = (conversationId: string): ChatSocket => {
+  if (activeSocket?.conversationId !== conversationId) {
+    activeSocket?.socket.close();
+    activeSocket = { conversationId, socket: createChatSocket(conversationId) };
+  }
+  activeSocket.socket.connect();
+  return activeSocket.socket;
+};
+
+// Close the chat socket, e.g. when the user signs out
+export const closeChatSocket = () => {
+  activeSocket?.socket.close();
+  activeSocket = null;
+  socketUnavailableUntil = 0;
+};
+
+// True once `socket` is open; false if it closes, or fails its first
+// connection, or `timeoutMs` passes first
+const waitForOpen = (socket: ChatSocket, timeoutMs: number): Promise<boolean> =>
+  new Promise(resolve => {
+    if (socket.getStatus() === 'open') {
+      resolve(true);
+      return;
+    }
+
+    const finish = (result: boolean) => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    const unsubscribe = socket.onStatus(status => {
+      if (status === 'open') finish(true);
+      else if (status === 'closed' || (status === 'reconnecting' && !socket.hasConnected())) finish(false);
+    });
+  });
+
+// Stream a reply over the conversation's socket, reporting through the same
+// callbacks as chatAPI.streamChat. Resolves false without sending anything
+// when the socket cannot be used, so the caller can fall back to SSE.
+export const streamChatOverSocket = async (
+  conversationId: string,
+  message: string,
+  modelId: string,
+  onChunk: (chunk: string) => void,
+  onComplete: (data: ChatStreamDone) => void,
+  onError: (error: string) => void,
+  options: StreamChatOptions = {}
+): Promise<boolean> => {
+  const { signal, history = [], guest = false, tools } = options;
+  if (guest || Date.now() < socketUnavailableUntil || typeof WebSocket === 'undefined') return false;
+
+  const socket = getConversationSocket(conversationId);
+  if (!(await waitForOpen(socket, CONNECT_TIMEOUT_MS))) {
+    // A socket closed on purpose meanwhile says nothing about the server
+    if (!socket.hasConnected() && activeSocket?.socket === socket) {
+      socketUnavailableUntil = Date.now() + SOCKET_RETRY_AFTER_MS;
+      socket.close();
+      activeSocket = null;
+    }
+    return false;
+  }
+  if (signal?.aborted) return true;
+
+  const requestId = createMessageId();
+
+  return new Promise<boolean>(resolve => {
+    const finish = () => {
+      unsubscribeFrames();
+      unsubscribeStatus();
+      signal?.removeEventListener('abort', cancel);
+      resolve(true);
+    };
+
+    const unsubscribeFrames = socket.onFrame(frame => {
+      if (!('request_id' in frame) || frame.request_id !== requestId) return;
+
+      if (frame.type === 'ai_chunk') {
+        onChunk(frame.content);
+      } else if (frame.type === 'ai_message_complete') {
+        onComplete({
+          type: 'done',
+          content: frame.content,
+          finished: true,
+          enhanced_features: frame.features_used,
+          tools_used: frame.tools_used,
+          sources: frame.sources
+        });
+        finish();
+      } else if (frame.type === 'error') {
+        onError(frame.content || 'Unknown error occurred');
+        finish();
+      }
+    });
+
+    // The server does not resume a reply on a new connection
+    const unsubscribeStatus = socket.onStatus(status => {
+      if (status === 'open') return;
+      onError('Connection lost before the response completed');
+      finish();
+    });
+
+    // Stopped by the user: the server stops generating, and frames still
+    // arriving for this request are ignored from now on
+    const cancel = () => {
+      socket.send({ type: 'cancel', request_id: requestId });
+      finish();
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    socket.send({ type: 'chat', request_id: requestId, content: message, model_id: modelId, history, tools });
+  });
+};
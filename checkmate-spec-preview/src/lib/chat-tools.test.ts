@@ -0,0 +1,51 @@
+import { Wrench } from 'lucide-react';
+import { getChatTools, prepareToolRequest, registerChatTool, type ChatToolDefinition } from './chat-tools';
+
+const online = { isOnline: true, isGuest: false };
+
+const clientTool = (extra: Partial<ChatToolDefinition> = {}): ChatToolDefinition => ({
+  id: 'issue_lookup',
+  name: 'Issue lookup',
+  description: 'Attach the issues a message mentions',
+  icon: Wrench,
+  color: '#6b7280',
+  augmentRequest: async request => ({ ...request, message: `${request.message}\n\n[PROJ-1] Login is broken` }),
+  ...extra
+});
+
+describe('prepareToolRequest', () => {
+  it('leaves the choice to the server when nothing is picked', async () => {
+    await expect(prepareToolRequest(undefined, 'hi', online)).resolves.toEqual({ message: 'hi' });
+    await expect(prepareToolRequest([], 'hi', online)).resolves.toEqual({ message: 'hi', tools: [] });
+  });
+
+  it('asks the server for every picked built-in tool', async () => {
+    const request = await prepareToolRequest(['news', 'web_search', 'crypto_data'], 'hi', online);
+
+    expect(request).toEqual({ message: 'hi', tools: ['web_search', 'crypto_data', 'news'] });
+  });
+
+  it('skips tools that are unavailable', async () => {
+    const request = await prepareToolRequest(['web_search'], 'hi', { isOnline: false, isGuest: false });
+
+    expect(request.tools).toEqual([]);
+  });
+
+  it('lets a registered tool rewrite the prompt', async () => {
+    const unregister = registerChatTool(clientTool());
+
+    const request = await prepareToolRequest(['issue_lookup', 'web_search'], 'Why?', online);
+    expect(request).toEqual({ message: 'Why?\n\n[PROJ-1] Login is broken', tools: ['web_search'] });
+
+    unregister();
+    expect(getChatTools().map(({ id }) => id)).not.toContain('issue_lookup');
+  });
+
+  it('keeps going when a tool fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const unregister = registerChatTool(clientTool({ augmentRequest: () => Promise.reject(new Error('down')) }));
+
+    await expect(prepareToolRequest(['issue_lookup', 'news'], 'hi', online)).resolves.toEqual({ message: 'hi', tools: ['news'] });
+    unregister();
+  });
+});
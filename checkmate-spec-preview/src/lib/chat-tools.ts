@@ -0,0 +1,119 @@
+// Tool registry for the chat composer
+// Every tool a message can be answered with is declared here once: how it
+// looks in the picker, when it can be used and what it does to the outgoing
+// request. The composer renders from the registry, so a tool added with
+// registerChatTool (at module load, before the composer renders) shows up
+// without touching the page.
+import { Globe, Newspaper, TrendingUp, type LucideIcon } from 'lucide-react';
+
+// What a tool's availability can depend on
+export interface ToolContext {
+  isOnline: boolean;
+  isGuest: boolean;
+}
+
+export type ToolAvailability = { available: true } | { available: false; reason: string };
+
+// The request as tools see it: the prompt sent to the model and the
+// server-side tools it asks for
+export interface ToolRequest {
+  message: string;
+  tools: string[];
+}
+
+export interface ChatToolDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+  // Accent colour, as a CSS colour
+  color: string;
+  // Composer placeholder while the tool is the only one picked
+  placeholder?: string;
+  // Defaults to always available
+  checkAvailability?: (context: ToolContext) => ToolAvailability;
+  // Change the outgoing request. Runs for every send, regenerate and edit
+  // that has the tool picked, in the order tools were registered.
+  augmentRequest: (request: ToolRequest, context: ToolContext) => ToolRequest | Promise<ToolRequest>;
+}
+
+const tools = new Map<string, ChatToolDefinition>();
+
+// Add a tool to the composer; returns a function that removes it again
+export const registerChatTool = (tool: ChatToolDefinition) => {
+  if (tools.has(tool.id)) console.warn(`Chat tool "${tool.id}" is registered twice, keeping the latest`);
+  tools.set(tool.id, tool);
+  return () => {
+    if (tools.get(tool.id) === tool) tools.delete(tool.id);
+  };
+};
+
+export const getChatTools = (): ChatToolDefinition[] => Array.from(tools.values());
+
+export const getChatTool = (id: string): ChatToolDefinition | undefined => tools.get(id);
+
+// Display name for a tool id, including ids reported by the server that
+// have no tool here; unknown ids are shown as is
+export const getToolName = (id: string): string => tools.get(id)?.name ?? id;
+
+export const checkToolAvailability = (tool: ChatToolDefinition, context: ToolContext): ToolAvailability =>
+  tool.checkAvailability?.(context) ?? { available: true };
+
+// Turn the tools picked for a message into the request to send. `toolIds`
+// undefined leaves the choice of tools to the server; an empty list asks
+// for none. Unknown, unavailable and failing tools are skipped.
+export const prepareToolRequest = async (
+  toolIds: string[] | undefined,
+  message: string,
+  context: ToolContext
+): Promise<{ message: string; tools?: string[] }> => {
+  if (!toolIds) return { message };
+
+  let request: ToolRequest = { message, tools: [] };
+  for (const tool of getChatTools()) {
+    if (!toolIds.includes(tool.id) || !checkToolAvailability(tool, context).available) continue;
+    try {
+      request = await tool.augmentRequest(request, context);
+    } catch (error) {
+      console.error(`Failed to apply the ${tool.name} tool:`, error);
+    }
+  }
+  return request;
+};
+
+// Tools the backend runs itself: picking one just asks for it by id
+const requiresConnection = ({ isOnline }: ToolContext): ToolAvailability =>
+  isOnline ? { available: true } : { available: false, reason: 'Needs a connection' };
+
+const serverTool = (tool: Omit<ChatToolDefinition, 'augmentRequest' | 'checkAvailability'>): ChatToolDefinition => ({
+  ...tool,
+  checkAvailability: requiresConnection,
+  augmentRequest: request => ({ ...request, tools: [...request.tools, tool.id] })
+});
+
+registerChatTool(serverTool({
+  id: 'web_search',
+  name: 'Web search',
+  description: 'Search the web for current information',
+  icon: Globe,
+  color: '#3b82f6',
+  placeholder: 'Search the web for...'
+}));
+
+registerChatTool(serverTool({
+  id: 'crypto_data',
+  name: 'Crypto data',
+  description: 'Live cryptocurrency prices and markets',
+  icon: TrendingUp,
+  color: '#10b981',
+  placeholder: 'Ask about crypto prices and markets...'
+}));
+
+registerChatTool(serverTool({
+  id: 'news',
+  name: 'News',
+  description: 'The latest headlines',
+  icon: Newspaper,
+  color: '#f59e0b',
+  placeholder: 'Ask about the latest news...'
+}));
@@ -0,0 +1,56 @@
+import { createMockReply, createMockTransport, getChatTransports, streamChatReply, type ChatTransport } from './chat-transport';
+
+const handlers = () => ({ onChunk: jest.fn(), onComplete: jest.fn(), onError: jest.fn() });
+const request = { conversationId: 'conv_1', message: 'Hi  there', modelId: 'model-a' };
+
+describe('mock transport', () => {
+  it('gives the same reply for the same message', () => {
+    expect(createMockReply('Hi  there', 'model-a')).toBe(createMockReply('Hi there', 'model-a'));
+    expect(createMockReply('Hi there', 'model-a')).toBe('This is a mock reply from model-a. You said: "Hi there"');
+  });
+
+  it('streams the reply in word chunks', async () => {
+    const callbacks = handlers();
+    await createMockTransport(0).stream(request, callbacks);
+
+    const chunks = callbacks.onChunk.mock.calls.map(([chunk]) => chunk);
+    expect(chunks.join('')).toBe(createMockReply(request.message, request.modelId));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(callbacks.onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the requested tools as used', async () => {
+    const callbacks = handlers();
+    await createMockTransport(0).stream({ ...request, tools: ['web_search'] }, callbacks);
+
+    expect(callbacks.onComplete).toHaveBeenCalledWith(expect.objectContaining({ tools_used: ['web_search'] }));
+  });
+});
+
+describe('streamChatReply', () => {
+  const transport = (name: ChatTransport['name'], available: boolean): ChatTransport => ({
+    name,
+    stream: jest.fn().mockResolvedValue(available)
+  });
+
+  it('falls back to the next transport when one is unavailable', async () => {
+    const websocket = transport('websocket', false);
+    const sse = transport('sse', true);
+
+    await expect(streamChatReply(request, handlers(), [websocket, sse])).resolves.toBe('sse');
+    expect(websocket.stream).toHaveBeenCalledTimes(1);
+    expect(sse.stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an error when no transport can be used', async () => {
+    const callbacks = handlers();
+
+    await expect(streamChatReply(request, callbacks, [transport('websocket', false)])).resolves.toBeNull();
+    expect(callbacks.onError).toHaveBeenCalledWith('No chat connection is available');
+  });
+
+  it('never falls back to the mock', () => {
+    expect(getChatTransports('websocket').map(({ name }) => name)).toEqual(['websocket', 'sse']);
+    expect(getChatTransports('mock').map(({ name }) => name)).toEqual(['mock']);
+  });
+});
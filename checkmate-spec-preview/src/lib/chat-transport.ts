@@ -0,0 +1,119 @@
+// Chat transports for Checkmate Spec Preview
+// A reply can stream over the conversation's WebSocket, over SSE from the
+// chat endpoint, or from an in-browser mock that needs no backend. useChat
+// tries the configured transport first and falls back down the list when
+// one cannot be used.
+import { chatAPI, type ChatHistoryMessage } from './api';
+import { streamChatOverSocket } from './chat-socket';
+import { CHAT_TRANSPORT } from './config';
+import type { ChatStreamDone } from './schemas';
+
+export type ChatTransportName = 'websocket' | 'sse' | 'mock';
+
+export interface ChatRequest {
+  conversationId: string;
+  message: string;
+  modelId: string;
+  history?: ChatHistoryMessage[];
+  signal?: AbortSignal;
+  guest?: boolean;
+  // Tools to answer with; omitted, the server picks them
+  tools?: string[];
+}
+
+export interface ChatStreamHandlers {
+  onChunk: (chunk: string) => void;
+  onComplete: (data: ChatStreamDone) => void;
+  onError: (error: string) => void;
+}
+
+export interface ChatTransport {
+  name: ChatTransportName;
+  // Stream a reply through `handlers`. Resolves false, having reported
+  // nothing, when this transport cannot be used so the next one is tried.
+  stream: (request: ChatRequest, handlers: ChatStreamHandlers) => Promise<boolean>;
+}
+
+export const sseTransport: ChatTransport = {
+  name: 'sse',
+  stream: async ({ conversationId, message, modelId, history, signal, guest, tools }, { onChunk, onComplete, onError }) => {
+    await chatAPI.streamChat(conversationId, message, modelId, onChunk, onComplete, onError, { signal, history, guest, tools });
+    return true;
+  }
+};
+
+// Guests and chats not yet created on the server have no socket to use
+export const webSocketTransport: ChatTransport = {
+  name: 'websocket',
+  stream: ({ conversationId, message, modelId, history, signal, guest, tools }, { onChunk, onComplete, onError }) => {
+    if (conversationId === 'default') return Promise.resolve(false);
+    return streamChatOverSocket(conversationId, message, modelId, onChunk, onComplete, onError, { signal, history, guest, tools });
+  }
+};
+
+// The mock's answer to `message`: always the same for the same input, so
+// tests and demos can rely on it
+export const createMockReply = (message: string, modelId: string): string => {
+  const prompt = message.trim().replace(/\s+/g, ' ');
+  const quoted = prompt.length > 80 ? `${prompt.slice(0, 77)}...` : prompt;
+  return `This is a mock reply from ${modelId || 'the mock model'}. You said: "${quoted}"`;
+};
+
+// Replies locally word by word, `chunkDelayMs` apart
+export const createMockTransport = (chunkDelayMs: number = 20): ChatTransport => ({
+  name: 'mock',
+  stream: async ({ message, modelId, signal, tools = [] }, { onChunk, onComplete }) => {
+    const reply = createMockReply(message, modelId);
+    const chunks = reply.match(/\S+\s*/g) ?? [];
+
+    for (const chunk of chunks) {
+      if (chunkDelayMs > 0) await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+      if (signal?.aborted) return true;
+      onChunk(chunk);
+    }
+
+    // Nothing is fetched, but the requested tools are echoed so tool UI can be demoed
+    onComplete({ type: 'done', content: reply, finished: true, enhanced_features: ['Mock transport'], tools_used: tools });
+    return true;
+  }
+});
+
+const TRANSPORTS: Record<ChatTransportName, ChatTransport> = {
+  websocket: webSocketTransport,
+  sse: sseTransport,
+  mock: createMockTransport()
+};
+
+// What each configured transport falls back to. The mock is never a
+// fallback: a made-up answer must not stand in for a failed real one.
+const FALLBACKS: Record<ChatTransportName, ChatTransportName[]> = {
+  websocket: ['websocket', 'sse'],
+  sse: ['sse'],
+  mock: ['mock']
+};
+
+const isTransportName = (value: string): value is ChatTransportName => value in FALLBACKS;
+
+// Transports to try, in order, for the configured `preferred` one
+export const getChatTransports = (preferred: string = CHAT_TRANSPORT): ChatTransport[] => {
+  if (!isTransportName(preferred)) {
+    console.warn(`Unknown chat transport "${preferred}", using websocket`);
+    return FALLBACKS.websocket.map(name => TRANSPORTS[name]);
+  }
+  return FALLBACKS[preferred].map(name => TRANSPORTS[name]);
+};
+
+// Stream a reply through the first transport that can take it. Resolves with
+// that transport's name, or null if none could (reported through onError).
+export const streamChatReply = async (
+  request: ChatRequest,
+  handlers: ChatStreamHandlers,
+  transports: ChatTransport[] = getChatTransports()
+): Promise<ChatTransportName | null> => {
+  for (const transport of transports) {
+    if (await transport.stream(request, handlers)) return transport.name;
+  }
+
+  handlers.onError('No chat connection is available');
+  return null;
+};
@@ -0,0 +1,16 @@
+// Shared client configuration
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+
+// WebSocket origin; defaults to the API's host over ws(s)://
+export const WS_BASE_URL = process.env.NEXT_PUBLIC_WS_URL || API_BASE_URL.replace(/^http/, 'ws');
+
+// How chat replies are streamed: 'websocket' (falling back to SSE), 'sse',
+// or 'mock' for canned local replies that need no backend
+export const CHAT_TRANSPORT = process.env.NEXT_PUBLIC_CHAT_TRANSPORT || 'websocket';
+
+// Whether signed-in users are offered to import their guest chats. Off until
+// the server stores chat messages: imported chats could not be read back.
+export const GUEST_IMPORT_ENABLED = process.env.NEXT_PUBLIC_GUEST_IMPORT === 'true';
+
+// Default auto-refresh interval of the crypto dashboard, in milliseconds
+export const CRYPTO_REFRESH_INTERVAL_MS = Number(process.env.NEXT_PUBLIC_CRYPTO_REFRESH_MS) || 30000;
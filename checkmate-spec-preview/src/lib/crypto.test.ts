@@ -0,0 +1,76 @@
+import type { Ticker } from './api';
+import { buildCryptoDiscussionPrompt, formatChange, formatPair, formatPrice, formatVolume, isStale, nextSort, sortTickers } from './crypto';
+
+const ticker = (symbol: string, price: number, change: number, volume: number): Ticker => ({
+  symbol,
+  price,
+  change,
+  volume,
+  high: price * 1.1,
+  low: price * 0.9,
+  openPrice: price
+});
+
+describe('sortTickers', () => {
+  const tickers = [ticker('ETHUSDT', 3000, -1.5, 500), ticker('BTCUSDT', 60000, 2.1, 900), ticker('SOLUSDT', 150, 5, 200)];
+
+  it('sorts numeric columns in either direction', () => {
+    expect(sortTickers(tickers, { key: 'change', direction: 'desc' }).map(t => t.symbol)).toEqual(['SOLUSDT', 'BTCUSDT', 'ETHUSDT']);
+    expect(sortTickers(tickers, { key: 'price', direction: 'asc' }).map(t => t.symbol)).toEqual(['SOLUSDT', 'ETHUSDT', 'BTCUSDT']);
+  });
+
+  it('sorts symbols alphabetically without changing the input', () => {
+    expect(sortTickers(tickers, { key: 'symbol', direction: 'asc' }).map(t => t.symbol)).toEqual(['BTCUSDT', 'ETHUSDT', 'SOLUSDT']);
+    expect(tickers[0].symbol).toBe('ETHUSDT');
+  });
+});
+
+describe('nextSort', () => {
+  it('flips the sorted column and starts others in their natural order', () => {
+    expect(nextSort({ key: 'volume', direction: 'desc' }, 'volume')).toEqual({ key: 'volume', direction: 'asc' });
+    expect(nextSort({ key: 'volume', direction: 'asc' }, 'symbol')).toEqual({ key: 'symbol', direction: 'asc' });
+    expect(nextSort({ key: 'symbol', direction: 'asc' }, 'change')).toEqual({ key: 'change', direction: 'desc' });
+  });
+});
+
+describe('isStale', () => {
+  it('flags data once two refreshes are overdue', () => {
+    expect(isStale(0, 30000, 60000)).toBe(false);
+    expect(isStale(0, 30000, 60001)).toBe(true);
+  });
+
+  it('waits five minutes when auto-refresh is off', () => {
+    expect(isStale(0, 0, 5 * 60 * 1000)).toBe(false);
+    expect(isStale(0, 0, 5 * 60 * 1000 + 1)).toBe(true);
+  });
+
+  it('never flags data that has not loaded yet', () => {
+    expect(isStale(null, 30000, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('splits pairs into base and quote', () => {
+    expect(formatPair('BTCUSDT')).toBe('BTC/USDT');
+    expect(formatPair('ETHBTC')).toBe('ETH/BTC');
+    expect(formatPair('USDT')).toBe('USDT');
+  });
+
+  it('formats prices, changes and volumes', () => {
+    expect(formatPrice(64210.5)).toBe('$64,210.50');
+    expect(formatPrice(0.48213)).toBe('$0.4821');
+    expect(formatPrice(0.0000123456)).toBe('$0.00001235');
+    expect(formatChange(2.345)).toBe('+2.35%');
+    expect(formatChange(-1)).toBe('-1.00%');
+    expect(formatVolume(1234567)).toBe('1.2M');
+  });
+});
+
+describe('buildCryptoDiscussionPrompt', () => {
+  it('includes the 24h figures when the pair has a ticker', () => {
+    expect(buildCryptoDiscussionPrompt('BTCUSDT', ticker('BTCUSDT', 100, 2, 1500))).toBe(
+      "Let's discuss BTC/USDT. Over the last 24 hours it moved +2.00% to $100.00 (low $90.00, high $110.00, volume 1.5K).\n\n"
+    );
+    expect(buildCryptoDiscussionPrompt('PEPEUSDT')).toBe("Let's discuss PEPE/USDT.\n\n");
+  });
+});
@@ -0,0 +1,72 @@
+// Crypto dashboard helpers for Checkmate Spec Preview
+// Sorting, staleness and number formatting for the market data served by
+// /api/external/crypto (Binance 24h tickers, USDT pairs).
+import type { Ticker } from './api';
+
+export type MarketSortKey = 'symbol' | 'price' | 'change' | 'volume';
+export type SortDirection = 'asc' | 'desc';
+
+export interface MarketSort {
+  key: MarketSortKey;
+  direction: SortDirection;
+}
+
+// Intervals offered on the dashboard; 0 turns auto-refresh off
+export const REFRESH_INTERVAL_OPTIONS = [
+  { label: '15s', ms: 15000 },
+  { label: '30s', ms: 30000 },
+  { label: '1m', ms: 60000 },
+  { label: '5m', ms: 300000 },
+  { label: 'Off', ms: 0 }
+];
+
+// How old data may get with auto-refresh off before it is flagged
+const MANUAL_STALE_AFTER_MS = 5 * 60 * 1000;
+
+export const sortTickers = (tickers: Ticker[], { key, direction }: MarketSort): Ticker[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...tickers].sort((a, b) =>
+    key === 'symbol' ? sign * a.symbol.localeCompare(b.symbol) : sign * (a[key] - b[key])
+  );
+};
+
+// Clicking the sorted column flips it; another column starts with its most
+// useful order (A-Z for names, largest first for numbers)
+export const nextSort = (current: MarketSort, key: MarketSortKey): MarketSort => {
+  if (current.key === key) return { key, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+  return { key, direction: key === 'symbol' ? 'asc' : 'desc' };
+};
+
+// Data is stale once a refresh is overdue: two intervals without an update,
+// which one failed refresh alone does not reach
+export const isStale = (updatedAt: number | null, refreshIntervalMs: number, now: number = Date.now()): boolean => {
+  if (updatedAt === null) return false;
+  const staleAfter = refreshIntervalMs > 0 ? refreshIntervalMs * 2 : MANUAL_STALE_AFTER_MS;
+  return now - updatedAt > staleAfter;
+};
+
+// "BTCUSDT" -> "BTC/USDT"
+export const formatPair = (symbol: string): string => {
+  const quote = ['USDT', 'BUSD', 'USDC', 'BTC', 'ETH'].find(q => symbol.endsWith(q) && symbol.length > q.length);
+  return quote ? `${symbol.slice(0, -quote.length)}/${quote}` : symbol;
+};
+
+// Dollar price with precision that suits its size: $64,210.55, $0.4821, $0.00001234
+export const formatPrice = (price: number): string => {
+  const digits = price >= 1 ? 2 : price >= 0.01 ? 4 : 8;
+  return `$${price.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+};
+
+export const formatChange = (change: number): string => `${change > 0 ? '+' : ''}${change.toFixed(2)}%`;
+
+// Compact volume: 1.2K, 3.4M, 5.6B
+export const formatVolume = (volume: number): string =>
+  volume.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+// First message of a chat about one pair, carrying the figures on screen
+export const buildCryptoDiscussionPrompt = (symbol: string, ticker?: Ticker): string => {
+  const pair = formatPair(symbol);
+  if (!ticker) return `Let's discuss ${pair}.\n\n`;
+  return `Let's discuss ${pair}. Over the last 24 hours it moved ${formatChange(ticker.change)} to ${formatPrice(ticker.price)} ` +
+    `(low ${formatPrice(ticker.low)}, high ${formatPrice(ticker.high)}, volume ${formatVolume(ticker.volume)}).\n\n`;
+};
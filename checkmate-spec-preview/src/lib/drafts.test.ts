@@ -0,0 +1,43 @@
+import { loadDraft, loadLastConversation, saveDraft, saveLastConversation, seedNewChat, takeNewChatSeed } from './drafts';
+
+describe('composer drafts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps a separate draft per conversation and for a new chat', () => {
+    saveDraft('conv_1', 'first');
+    saveDraft(null, 'unsent new chat');
+
+    expect(loadDraft('conv_1')).toBe('first');
+    expect(loadDraft(null)).toBe('unsent new chat');
+    expect(loadDraft('conv_2')).toBe('');
+  });
+
+  it('removes blank drafts and forgets stale ones', () => {
+    const now = Date.UTC(2024, 0, 31);
+    saveDraft('conv_1', 'old', now - 31 * 24 * 60 * 60 * 1000);
+    saveDraft('conv_2', 'text', now);
+    saveDraft('conv_2', '   ', now);
+
+    expect(loadDraft('conv_1', now)).toBe('');
+    expect(loadDraft('conv_2', now)).toBe('');
+    expect(localStorage.getItem('composer_drafts')).toBeNull();
+  });
+
+  it('hands a seeded new chat to the chat page once', () => {
+    seedNewChat('Discuss this');
+
+    expect(loadDraft(null)).toBe('Discuss this');
+    expect(takeNewChatSeed()).toBe(true);
+    expect(takeNewChatSeed()).toBe(false);
+  });
+
+  it('remembers the last open conversation until it is cleared', () => {
+    saveLastConversation('conv_1');
+    expect(loadLastConversation()).toBe('conv_1');
+
+    saveLastConversation(null);
+    expect(loadLastConversation()).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+// Unsent composer text for Checkmate Spec Preview
+// One draft per conversation (plus one for a chat not created yet), kept in
+// localStorage so it survives reloads, tab crashes and sign-in redirects.
+
+const DRAFTS_KEY = 'composer_drafts';
+// Drafts nobody has touched in this long are dropped
+const DRAFT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Draft slot for the composer of a brand-new chat
+const NEW_CHAT_KEY = 'new';
+
+interface StoredDraft {
+  text: string;
+  updatedAt: number;
+}
+
+const draftKey = (conversationId: string | null) => conversationId ?? NEW_CHAT_KEY;
+
+const readDrafts = (now: number): Record<string, StoredDraft> => {
+  try {
+    const drafts = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}') as Record<string, StoredDraft>;
+    return Object.fromEntries(
+      Object.entries(drafts).filter(([, draft]) => typeof draft?.text === 'string' && now - draft.updatedAt < DRAFT_MAX_AGE_MS)
+    );
+  } catch {
+    return {};
+  }
+};
+
+const writeDrafts = (drafts: Record<string, StoredDraft>) => {
+  try {
+    if (Object.keys(drafts).length > 0) {
+      localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+    } else {
+      localStorage.removeItem(DRAFTS_KEY);
+    }
+  } catch (error) {
+    // Storage full or disabled; the draft just won't survive a reload
+    console.error('Failed to save draft:', error);
+  }
+};
+
+export const loadDraft = (conversationId: string | null, now: number = Date.now()): string =>
+  readDrafts(now)[draftKey(conversationId)]?.text ?? '';
+
+// Blank text removes the draft
+export const saveDraft = (conversationId: string | null, text: string, now: number = Date.now()) => {
+  const drafts = readDrafts(now);
+  const key = draftKey(conversationId);
+
+  if (text.trim()) {
+    drafts[key] = { text, updatedAt: now };
+  } else {
+    delete drafts[key];
+  }
+  writeDrafts(drafts);
+};
+
+// Forget every draft, e.g. when the user signs out of a shared machine
+export const clearDrafts = () => {
+  localStorage.removeItem(DRAFTS_KEY);
+};
+
+const NEW_CHAT_SEED_KEY = 'new_chat_seeded';
+
+// Have the chat page open a new chat with `text` in its composer, for
+// views elsewhere in the app that start a conversation (e.g. the news feed)
+export const seedNewChat = (text: string) => {
+  saveDraft(null, text);
+  sessionStorage.setItem(NEW_CHAT_SEED_KEY, '1');
+};
+
+// Whether a new chat was seeded since the last call
+export const takeNewChatSeed = (): boolean => {
+  const seeded = sessionStorage.getItem(NEW_CHAT_SEED_KEY) !== null;
+  sessionStorage.removeItem(NEW_CHAT_SEED_KEY);
+  return seeded;
+};
+
+const LAST_CONVERSATION_KEY = 'last_conversation_id';
+
+// Conversation the chat page reopens after a reload
+export const loadLastConversation = (): string | null => localStorage.getItem(LAST_CONVERSATION_KEY);
+
+// null forgets it, e.g. on sign-out so the next user starts on a new chat
+export const saveLastConversation = (conversationId: string | null) => {
+  if (conversationId) {
+    localStorage.setItem(LAST_CONVERSATION_KEY, conversationId);
+  } else {
+    localStorage.removeItem(LAST_CONVERSATION_KEY);
+  }
+};
@@ -0,0 +1,41 @@
+import {
+  ApiError,
+  AuthError,
+  fromHttpStatus,
+  parseRetryAfter,
+  RateLimitError,
+  ServerError,
+  ValidationError
+} from './errors';
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('30')).toBe(30000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe('fromHttpStatus', () => {
+  it('maps statuses to error classes', () => {
+    expect(fromHttpStatus(429, null, '2')).toBeInstanceOf(RateLimitError);
+    expect((fromHttpStatus(429, null, '2') as RateLimitError).retryAfterMs).toBe(2000);
+    expect(fromHttpStatus(401, null, null)).toBeInstanceOf(AuthError);
+    expect(fromHttpStatus(503, null, null)).toBeInstanceOf(ServerError);
+    expect(fromHttpStatus(404, null, null)).toBeInstanceOf(ApiError);
+  });
+
+  it('collects FastAPI validation details', () => {
+    const error = fromHttpStatus(422, { detail: [{ loc: ['body', 'title'], msg: 'field required' }] }, null);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).issues).toEqual(['body.title: field required']);
+  });
+
+  it('uses a string detail as the message', () => {
+    expect(fromHttpStatus(500, { detail: 'Search failed: boom' }, null).message).toBe('Search failed: boom');
+  });
+});
@@ -0,0 +1,150 @@
+// Error model for Checkmate Spec Preview API calls
+// Every failure leaving lib/api.ts is an ApiError subclass, so callers can
+// branch on the kind of failure instead of poking at raw axios errors.
+import axios from 'axios';
+
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly endpoint: string | null;
+
+  constructor(message: string, status: number | null = null, endpoint: string | null = null, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+  }
+}
+
+// The request never reached the server, or the response never arrived
+export class NetworkError extends ApiError {
+  constructor(endpoint: string | null = null, options?: { cause?: unknown }) {
+    super('Unable to reach the server. Check your connection and try again.', null, endpoint, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number | null;
+
+  constructor(timeoutMs: number | null = null, endpoint: string | null = null, options?: { cause?: unknown }) {
+    super('The server took too long to respond.', null, endpoint, options);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// HTTP 429; `retryAfterMs` comes from the Retry-After header when present
+export class RateLimitError extends ApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null, endpoint: string | null = null, options?: { cause?: unknown }) {
+    const wait = retryAfterMs !== null ? ` Try again in ${Math.ceil(retryAfterMs / 1000)}s.` : '';
+    super(`Too many requests.${wait}`, 429, endpoint, options);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// HTTP 5xx
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, endpoint: string | null = null, options?: { cause?: unknown }) {
+    super(message, status, endpoint, options);
+    this.name = 'ServerError';
+  }
+}
+
+// The server rejected the request body (400/422), or the response body did
+// not match its schema (status null)
+export class ValidationError extends ApiError {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = [], status: number | null = null, endpoint: string | null = null, options?: { cause?: unknown }) {
+    super(message, status, endpoint, options);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+// HTTP 401/403
+export class AuthError extends ApiError {
+  constructor(message: string, status: number, endpoint: string | null = null, options?: { cause?: unknown }) {
+    super(message, status, endpoint, options);
+    this.name = 'AuthError';
+  }
+}
+
+// Seconds or an HTTP date, per RFC 9110
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+// FastAPI puts the reason in `detail`: a string, or a list of field errors for 422s
+const describeDetail = (body: unknown): { message: string | null; issues: string[] } => {
+  const detail = (body as { detail?: unknown } | null)?.detail;
+  if (typeof detail === 'string') return { message: detail, issues: [] };
+  if (Array.isArray(detail)) {
+    const issues = detail.map(item => {
+      const { loc, msg } = item as { loc?: unknown[]; msg?: string };
+      return `${Array.isArray(loc) ? loc.join('.') : '(body)'}: ${msg ?? 'invalid'}`;
+    });
+    return { message: null, issues };
+  }
+  return { message: null, issues: [] };
+};
+
+// Map an HTTP error status to the matching ApiError subclass
+export const fromHttpStatus = (
+  status: number,
+  body: unknown,
+  retryAfter: string | null | undefined,
+  endpoint: string | null = null,
+  options?: { cause?: unknown }
+): ApiError => {
+  const { message, issues } = describeDetail(body);
+
+  if (status === 429) return new RateLimitError(parseRetryAfter(retryAfter), endpoint, options);
+  if (status === 401 || status === 403) {
+    return new AuthError(message ?? (status === 401 ? 'Your session has expired. Please sign in again.' : 'You do not have access to this resource.'), status, endpoint, options);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message ?? 'The request was invalid.', issues, status, endpoint, options);
+  }
+  if (status >= 500) return new ServerError(message ?? `The server returned an error (${status}).`, status, endpoint, options);
+  return new ApiError(message ?? `Request failed with status ${status}.`, status, endpoint, options);
+};
+
+// Normalize anything thrown by a request into an ApiError
+export const toApiError = (error: unknown, endpoint: string | null = null): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const target = endpoint ?? (error.config ? `${error.config.method?.toUpperCase() ?? 'GET'} ${error.config.url ?? ''}` : null);
+
+    if (error.response) {
+      return fromHttpStatus(
+        error.response.status,
+        error.response.data,
+        error.response.headers?.['retry-after'],
+        target,
+        { cause: error }
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(error.config?.timeout || null, target, { cause: error });
+    }
+    return new NetworkError(target, { cause: error });
+  }
+
+  if (error instanceof TypeError) {
+    // fetch() rejects with a TypeError when the network is unreachable
+    return new NetworkError(endpoint, { cause: error });
+  }
+
+  return new ApiError(error instanceof Error ? error.message : 'Unknown error occurred', null, endpoint, { cause: error });
+};
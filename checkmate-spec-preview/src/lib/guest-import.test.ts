@@ -0,0 +1,44 @@
+import type { Conversation, Message } from './api';
+import { findDuplicate, orderForImport } from './guest-import';
+
+const message = (id: string, time: number, parentId: string | null, extra: Partial<Message> = {}): Message => ({
+  id,
+  role: 'user',
+  content: id,
+  timestamp: new Date(time),
+  parentId,
+  ...extra
+});
+
+const conversation = (id: string, title: string, lastMessage?: string): Conversation => ({
+  id,
+  title,
+  last_message: lastMessage,
+  created_at: '2024-01-01T00:00:00Z'
+});
+
+describe('findDuplicate', () => {
+  it('matches on title and last message, ignoring case and spacing', () => {
+    const remote = [conversation('conv_a', 'Bitcoin  price', 'It is up'), conversation('conv_b', 'Other')];
+
+    expect(findDuplicate(conversation('local_1', 'bitcoin price', 'It is up '), remote)?.id).toBe('conv_a');
+    expect(findDuplicate(conversation('local_2', 'Bitcoin price', 'It is down'), remote)).toBeUndefined();
+  });
+});
+
+describe('orderForImport', () => {
+  it('puts parents first and re-attaches replies to error bubbles', () => {
+    const ordered = orderForImport([
+      message('a2', 4, 'u1', { role: 'assistant' }),
+      message('u1', 1, null),
+      message('err', 2, 'u1', { role: 'assistant', isError: true }),
+      message('u2', 3, 'err')
+    ]);
+
+    expect(ordered.map(m => [m.id, m.parentId])).toEqual([
+      ['u1', null],
+      ['u2', 'u1'],
+      ['a2', 'u1']
+    ]);
+  });
+});
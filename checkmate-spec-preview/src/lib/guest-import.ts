@@ -0,0 +1,135 @@
+// Moving guest conversations into an account
+// Each local conversation is recreated on the server and its messages are
+// replayed oldest first. The server assigns new ids, so parent links are
+// remapped as it goes. Conversations the account already has are skipped.
+import { chatAPI, type Conversation, type Message } from './api';
+import { guestStore } from './guest-store';
+
+// Local ids already imported, mapped to their server ids. Guards against a
+// second import if clearing the local copy failed the first time.
+const IMPORT_MAP_KEY = 'guest_import_map';
+
+export interface GuestImportResult {
+  imported: number;
+  duplicates: number;
+  failed: number;
+  // Local conversation id -> server conversation id
+  idMap: Record<string, string>;
+}
+
+const readImportMap = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(IMPORT_MAP_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const normalize = (text: string | undefined) => (text ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+// A server conversation with the same title and last message is treated as
+// the same chat, e.g. one imported from another tab
+export const findDuplicate = (local: Conversation, remote: Conversation[]): Conversation | undefined =>
+  remote.find(conversation =>
+    normalize(conversation.title) === normalize(local.title) &&
+    normalize(conversation.last_message) === normalize(local.last_message)
+  );
+
+// Messages in the order they can be replayed (every parent before its
+// children). Error bubbles are dropped and their replies re-attached to the
+// nearest kept ancestor.
+export const orderForImport = (messages: Message[]): Message[] => {
+  const byId = new Map(messages.map(message => [message.id, message]));
+
+  const keptAncestor = (id: string | null | undefined): string | null => {
+    let current = id ? byId.get(id) : undefined;
+    while (current?.isError) {
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return current?.id ?? null;
+  };
+
+  return [...messages]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .filter(message => !message.isError)
+    .map(message => ({ ...message, parentId: keptAncestor(message.parentId) }));
+};
+
+// Whether the server reads back at least `count` messages for a conversation
+const isStoredOnServer = async (conversationId: string, count: number): Promise<boolean> => {
+  if (count === 0) return true;
+  const { messages } = await chatAPI.getMessages(conversationId, { limit: count });
+  return messages.length >= count;
+};
+
+const notStored = () => new Error('The server did not keep the imported messages');
+
+// Recreate one local conversation on the server; returns its new id
+const importConversation = async (conversation: Conversation, messages: Message[]): Promise<string> => {
+  const created = await chatAPI.createConversation(conversation.title);
+
+  try {
+    const messageIds: Record<string, string> = {};
+    for (const message of messages) {
+      const stored = await chatAPI.addMessage(created.id, {
+        content: message.content,
+        role: message.role,
+        model_id: message.model,
+        parent_id: message.parentId ? messageIds[message.parentId] ?? null : null
+      });
+      messageIds[message.id] = stored.id;
+
+      if (message.feedback) {
+        await chatAPI.submitFeedback(created.id, stored.id, message.feedback);
+      }
+    }
+
+    if (conversation.pinned || conversation.archived) {
+      await chatAPI.updateConversation(created.id, { pinned: conversation.pinned, archived: conversation.archived });
+    }
+
+    if (!(await isStoredOnServer(created.id, messages.length))) throw notStored();
+  } catch (error) {
+    // Don't leave a half-imported copy behind; the local one is kept for a retry
+    await chatAPI.deleteConversation(created.id).catch(() => {});
+    throw error;
+  }
+
+  return created.id;
+};
+
+// Import every guest conversation into the signed-in account. Imported and
+// duplicate conversations are removed from this device once the server reads
+// their messages back; failed ones stay.
+export const importGuestConversations = async (): Promise<GuestImportResult> => {
+  const result: GuestImportResult = { imported: 0, duplicates: 0, failed: 0, idMap: {} };
+  const [local, remote] = await Promise.all([guestStore.getConversations(), chatAPI.getConversations()]);
+  const importMap = readImportMap();
+
+  for (const conversation of local) {
+    try {
+      const replay = orderForImport((await guestStore.getMessages(conversation.id)).messages);
+      const existingId = importMap[conversation.id] ?? findDuplicate(conversation, remote)?.id;
+      if (existingId) {
+        if (!(await isStoredOnServer(existingId, replay.length))) throw notStored();
+        result.duplicates += 1;
+        result.idMap[conversation.id] = existingId;
+      } else {
+        const serverId = await importConversation(conversation, replay);
+        importMap[conversation.id] = serverId;
+        localStorage.setItem(IMPORT_MAP_KEY, JSON.stringify(importMap));
+        result.imported += 1;
+        result.idMap[conversation.id] = serverId;
+      }
+
+      await guestStore.deleteConversation(conversation.id);
+      delete importMap[conversation.id];
+      localStorage.setItem(IMPORT_MAP_KEY, JSON.stringify(importMap));
+    } catch (error) {
+      console.error(`Failed to import conversation ${conversation.id}:`, error);
+      result.failed += 1;
+    }
+  }
+
+  return result;
+};
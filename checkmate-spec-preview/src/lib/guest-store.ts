@@ -0,0 +1,194 @@
+// Guest conversations for Checkmate Spec Preview
+// Visitors without an account keep their chats in IndexedDB. Nothing is
+// stored on the server until they sign in and import them (guest-import.ts).
+import type { ChatSource, Conversation, ConversationUpdate, Message, MessageFeedback, MessagePage, chatAPI } from './api';
+import { createMessageId } from './message-tree';
+
+const DB_NAME = 'checkmate-guest';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const MESSAGES = 'messages';
+
+// The conversation operations useChat needs, served by the server or by this store
+export type ConversationStore = Pick<
+  typeof chatAPI,
+  'getConversations' | 'getMessages' | 'createConversation' | 'updateConversation' | 'deleteConversation' | 'submitFeedback'
+>;
+
+// Messages are stored with their conversation and ISO timestamps
+interface LocalMessageRecord {
+  id: string;
+  conversation_id: string;
+  content: string;
+  role: Message['role'];
+  created_at: string;
+  parent_id: string | null;
+  model?: string;
+  is_error?: boolean;
+  stopped?: boolean;
+  feedback?: MessageFeedback;
+  tools?: string[];
+  tools_used?: string[];
+  sources?: ChatSource[];
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(CONVERSATIONS, { keyPath: 'id' });
+      db.createObjectStore(MESSAGES, { keyPath: 'id' }).createIndex('conversation_id', 'conversation_id');
+    };
+    databasePromise = toPromise(request).catch(error => {
+      // Let the next call try again (e.g. after private browsing is left)
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const toMessage = (record: LocalMessageRecord): Message => ({
+  id: record.id,
+  content: record.content,
+  role: record.role,
+  timestamp: new Date(record.created_at),
+  parentId: record.parent_id,
+  model: record.model,
+  isError: record.is_error,
+  stopped: record.stopped,
+  feedback: record.feedback,
+  tools: record.tools,
+  toolsUsed: record.tools_used,
+  sources: record.sources
+});
+
+const getConversation = async (id: string): Promise<Conversation | undefined> => {
+  const db = await openDatabase();
+  return toPromise<Conversation | undefined>(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).get(id));
+};
+
+const putConversation = async (conversation: Conversation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CONVERSATIONS, 'readwrite');
+  transaction.objectStore(CONVERSATIONS).put(conversation);
+  await transactionDone(transaction);
+};
+
+export const isGuestStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const guestStore = {
+  getConversations: async (): Promise<Conversation[]> => {
+    const db = await openDatabase();
+    const conversations = await toPromise<Conversation[]>(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).getAll());
+    return conversations
+      .map(conversation => ({ ...conversation, local: true }))
+      .sort((a, b) => (b.updated_at ?? b.created_at).localeCompare(a.updated_at ?? a.created_at));
+  },
+
+  // The whole conversation at once: it is already on this device
+  getMessages: async (conversationId: string): Promise<MessagePage> => {
+    const db = await openDatabase();
+    const index = db.transaction(MESSAGES).objectStore(MESSAGES).index('conversation_id');
+    const records = await toPromise<LocalMessageRecord[]>(index.getAll(conversationId));
+    return {
+      messages: records.sort((a, b) => a.created_at.localeCompare(b.created_at)).map(toMessage),
+      hasMore: false
+    };
+  },
+
+  createConversation: async (title: string): Promise<Conversation> => {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: `local_${createMessageId()}`,
+      title,
+      created_at: now,
+      updated_at: now,
+      local: true
+    };
+    await putConversation(conversation);
+    return conversation;
+  },
+
+  updateConversation: async (id: string, update: ConversationUpdate): Promise<ConversationUpdate> => {
+    const conversation = await getConversation(id);
+    if (!conversation) throw new Error(`Local conversation ${id} not found`);
+    await putConversation({ ...conversation, ...update });
+    return update;
+  },
+
+  deleteConversation: async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+    transaction.objectStore(CONVERSATIONS).delete(id);
+
+    const messages = transaction.objectStore(MESSAGES);
+    const keys = await toPromise(messages.index('conversation_id').getAllKeys(id));
+    keys.forEach(key => messages.delete(key));
+    await transactionDone(transaction);
+  },
+
+  submitFeedback: async (_conversationId: string, messageId: string, rating: MessageFeedback | null): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(MESSAGES, 'readwrite');
+    const messages = transaction.objectStore(MESSAGES);
+    const record = await toPromise<LocalMessageRecord | undefined>(messages.get(messageId));
+    if (record) messages.put({ ...record, feedback: rating ?? undefined });
+    await transactionDone(transaction);
+  },
+
+  // Store a message of a local conversation and bump the conversation's recency
+  saveMessage: async (conversationId: string, message: Message): Promise<void> => {
+    const record: LocalMessageRecord = {
+      id: message.id,
+      conversation_id: conversationId,
+      content: message.content,
+      role: message.role,
+      created_at: message.timestamp.toISOString(),
+      parent_id: message.parentId ?? null,
+      model: message.model,
+      is_error: message.isError,
+      stopped: message.stopped,
+      feedback: message.feedback,
+      tools: message.tools,
+      tools_used: message.toolsUsed,
+      sources: message.sources
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction([CONVERSATIONS, MESSAGES], 'readwrite');
+    transaction.objectStore(MESSAGES).put(record);
+
+    const conversations = transaction.objectStore(CONVERSATIONS);
+    const conversation = await toPromise<Conversation | undefined>(conversations.get(conversationId));
+    if (conversation) {
+      conversations.put({
+        ...conversation,
+        updated_at: record.created_at,
+        ...(message.isError ? {} : { last_message: message.content })
+      });
+    }
+    await transactionDone(transaction);
+  },
+
+  countConversations: async (): Promise<number> => {
+    const db = await openDatabase();
+    return toPromise(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).count());
+  }
+};
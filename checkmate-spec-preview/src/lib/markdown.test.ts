@@ -0,0 +1,92 @@
+import { closeOpenBlocks, getCodeLanguage, linkCitations, markdownToPlainText, parseCitationHref, sanitizeHref } from './markdown';
+
+describe('closeOpenBlocks', () => {
+  it('leaves complete markdown untouched', () => {
+    const content = '# Title\n\n```ts\nconst a = 1;\n```\n\n$$\nx^2\n$$';
+
+    expect(closeOpenBlocks(content)).toBe(content);
+  });
+
+  it('closes an unterminated code fence with the same marker', () => {
+    expect(closeOpenBlocks('Intro\n````python\nprint(1)')).toBe('Intro\n````python\nprint(1)\n````');
+    expect(closeOpenBlocks('~~~\nplain')).toBe('~~~\nplain\n~~~');
+  });
+
+  it('ignores shorter or different fences inside an open block', () => {
+    expect(closeOpenBlocks('````md\n```\nnested')).toBe('````md\n```\nnested\n````');
+  });
+
+  it('closes an unterminated display math block', () => {
+    expect(closeOpenBlocks('$$\n\\frac{a}{b}')).toBe('$$\n\\frac{a}{b}\n$$');
+  });
+
+  it('does not treat $$ inside code as math', () => {
+    const content = '```sh\necho $$\n```';
+
+    expect(closeOpenBlocks(content)).toBe(content);
+  });
+});
+
+describe('sanitizeHref', () => {
+  it('keeps web, mail, relative and anchor links', () => {
+    expect(sanitizeHref('https://example.com/a')).toBe('https://example.com/a');
+    expect(sanitizeHref('mailto:team@example.com')).toBe('mailto:team@example.com');
+    expect(sanitizeHref('/docs')).toBe('/docs');
+    expect(sanitizeHref('#section')).toBe('#section');
+  });
+
+  it('drops script and data URLs', () => {
+    expect(sanitizeHref('javascript:alert(1)')).toBeUndefined();
+    expect(sanitizeHref(' JavaScript:alert(1)')).toBeUndefined();
+    expect(sanitizeHref('data:text/html,<b>x</b>')).toBeUndefined();
+  });
+});
+
+describe('getCodeLanguage', () => {
+  it('reads the language class', () => {
+    expect(getCodeLanguage('hljs language-typescript')).toBe('typescript');
+    expect(getCodeLanguage(undefined)).toBeNull();
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('strips headings, emphasis, links and inline code', () => {
+    const markdown = '## Setup\n\nRun **npm install** and see [the docs](https://example.com) for `next dev`.';
+
+    expect(markdownToPlainText(markdown)).toBe('Setup\n\nRun npm install and see the docs for next dev.');
+  });
+
+  it('keeps code block contents verbatim without fences', () => {
+    expect(markdownToPlainText('Try:\n\n```py\nprint(**kwargs)\n```')).toBe('Try:\n\nprint(**kwargs)');
+  });
+
+  it('flattens lists, quotes and tables', () => {
+    const markdown = '> Note\n\n* one\n- [x] two\n\n| a | b |\n|---|:-:|\n| 1 | 2 |';
+
+    expect(markdownToPlainText(markdown)).toBe('Note\n\n- one\ntwo\n\na\tb\n1\t2');
+  });
+
+  it('leaves snake_case identifiers alone', () => {
+    expect(markdownToPlainText('Set my_env_var to _on_')).toBe('Set my_env_var to on');
+  });
+});
+
+describe('linkCitations', () => {
+  it('links markers that have a source to its card', () => {
+    expect(linkCitations('Fast [1][2], cheap [3].', 2, 'm1')).toBe(
+      'Fast [\\[1\\]](#source-m1-1)[\\[2\\]](#source-m1-2), cheap [3].'
+    );
+  });
+
+  it('leaves code, links and link definitions alone', () => {
+    const content = 'See `arr[1]` and [1](https://example.com)\n\n```js\nx[1]\n```\n\n[1]: https://example.com';
+
+    expect(linkCitations(content, 1, 'm1')).toBe(content);
+  });
+
+  it('reads the source number back from a citation link', () => {
+    expect(parseCitationHref('#source-3f2a-b9c1-12')).toBe(12);
+    expect(parseCitationHref('#intro')).toBeNull();
+    expect(parseCitationHref(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// Helpers for rendering model output as markdown
+// A streamed answer is usually cut mid-block; closing the open constructs
+// keeps the partial render stable instead of flipping the rest of the
+// message into (or out of) a code block on every chunk.
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+// A closing fence uses the same character, is at least as long and has no info string
+const isClosingFence = (line: string, openFence: string): boolean => {
+  const fence = line.match(FENCE_PATTERN)?.[1];
+  return Boolean(fence && fence[0] === openFence[0] && fence.length >= openFence.length && line.trim() === fence);
+};
+
+// Close an unterminated code fence or display-math block at the end of `content`
+export const closeOpenBlocks = (content: string): string => {
+  let openFence: string | null = null;
+  let mathOpen = false;
+
+  for (const line of content.split('\n')) {
+    const fence = line.match(FENCE_PATTERN)?.[1];
+
+    if (openFence) {
+      if (isClosingFence(line, openFence)) {
+        openFence = null;
+      }
+      continue;
+    }
+
+    if (fence) {
+      openFence = fence;
+      continue;
+    }
+
+    const mathDelimiters = line.match(/\$\$/g)?.length ?? 0;
+    if (mathDelimiters % 2 === 1) mathOpen = !mathOpen;
+  }
+
+  if (openFence) return `${content}\n${openFence}`;
+  if (mathOpen) return `${content}\n$$`;
+  return content;
+};
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// Only allow links that navigate somewhere harmless; relative links and
+// in-page anchors pass, `javascript:` / `data:` and friends are dropped
+export const sanitizeHref = (href: string | undefined): string | undefined => {
+  if (!href) return undefined;
+  const trimmed = href.trim();
+  if (trimmed.startsWith('#') || trimmed.startsWith('/')) return trimmed;
+
+  try {
+    const url = new URL(trimmed);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.toString() : undefined;
+  } catch {
+    // No scheme at all, so it cannot run script
+    return /^[^:]*$/.test(trimmed) ? trimmed : undefined;
+  }
+};
+
+// Anchor of source card `n` in the answer identified by `scope`
+export const citationId = (scope: string, n: number): string => `source-${scope}-${n}`;
+
+// The source number a citation link points at, or null for any other link
+export const parseCitationHref = (href: string | undefined): number | null => {
+  const match = href?.match(/^#source-.+-(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+// Inline code spans, or a [n] marker that is not itself a link or a link definition
+const CITATION_PATTERN = /(`+)[^`]*?\1|\[(\d{1,3})\](?![(:])/g;
+
+// Turn [n] citation markers into links to the answer's source cards. Only
+// numbers with a source (1..`count`) are linked, and code is left alone.
+export const linkCitations = (content: string, count: number, scope: string): string => {
+  if (count === 0) return content;
+  let openFence: string | null = null;
+
+  return content.split('\n').map(line => {
+    const fence = line.match(FENCE_PATTERN)?.[1];
+
+    if (openFence) {
+      if (isClosingFence(line, openFence)) openFence = null;
+      return line;
+    }
+    if (fence) {
+      openFence = fence;
+      return line;
+    }
+
+    return line.replace(CITATION_PATTERN, (match, code: string | undefined, number: string | undefined) => {
+      const n = Number(number);
+      if (code || n < 1 || n > count) return match;
+      return `[\\[${n}\\]](#${citationId(scope, n)})`;
+    });
+  }).join('\n');
+};
+
+// Language name from a highlighted code element's class list ("language-ts hljs")
+export const getCodeLanguage = (className: string | undefined): string | null =>
+  className?.match(/language-([\w+#-]+)/)?.[1] ?? null;
+
+// Strip inline markdown syntax from a single line of prose
+const stripInlineMarkdown = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/(^|[^\w])_(\S(?:.*?\S)?)_(?=[^\w]|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1');
+
+// Plain-text version of a markdown message, for copying or reading aloud.
+// Code block contents are kept verbatim; only their fences are dropped.
+export const markdownToPlainText = (markdown: string): string => {
+  const lines: string[] = [];
+  let openFence: string | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const fence = line.match(FENCE_PATTERN)?.[1];
+
+    if (openFence) {
+      if (isClosingFence(line, openFence)) {
+        openFence = null;
+      } else {
+        lines.push(line);
+      }
+      continue;
+    }
+
+    if (fence) {
+      openFence = fence;
+      continue;
+    }
+
+    // Horizontal rules, table separators and math delimiters carry no text
+    if (/^ {0,3}([-*_])( *\1){2,} *$/.test(line) || /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line) || line.trim() === '$$') {
+      continue;
+    }
+
+    let text = line
+      .replace(/^ {0,3}#{1,6}\s+/, '')
+      .replace(/^(\s*>)+\s?/, '')
+      .replace(/^(\s*)[-*+]\s+\[[ xX]\]\s+/, '$1')
+      .replace(/^(\s*)[*+]\s+/, '$1- ');
+
+    // Table rows become tab-separated cells
+    if (/^\s*\|.*\|\s*$/.test(text)) {
+      text = text.trim().slice(1, -1).split('|').map(cell => cell.trim()).join('\t');
+    }
+
+    lines.push(stripInlineMarkdown(text));
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
@@ -0,0 +1,101 @@
+import type { Message } from './api';
+import {
+  addMessage,
+  buildMessageTree,
+  createMessageTree,
+  getActiveLeafId,
+  getActivePath,
+  getPathTo,
+  getSiblingInfo,
+  mergeStoredMessages,
+  selectSibling
+} from './message-tree';
+
+const message = (id: string, role: Message['role'], content = id): Message => ({
+  id,
+  role,
+  content,
+  timestamp: new Date(0)
+});
+
+describe('message tree', () => {
+  it('follows the most recently added branch', () => {
+    let tree = createMessageTree();
+    tree = addMessage(tree, message('u1', 'user'), null);
+    tree = addMessage(tree, message('a1', 'assistant'), 'u1');
+    tree = addMessage(tree, message('a2', 'assistant'), 'u1');
+
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1', 'a2']);
+    expect(getActiveLeafId(tree)).toBe('a2');
+    expect(getSiblingInfo(tree, 'a2')).toEqual({ index: 1, count: 2 });
+  });
+
+  it('switches between sibling branches', () => {
+    let tree = createMessageTree();
+    tree = addMessage(tree, message('u1', 'user'), null);
+    tree = addMessage(tree, message('a1', 'assistant'), 'u1');
+    tree = addMessage(tree, message('u2', 'user'), 'a1');
+    tree = addMessage(tree, message('u1b', 'user', 'edited'), null);
+
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1b']);
+
+    tree = selectSibling(tree, 'u1b', -1);
+
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1', 'a1', 'u2']);
+    expect(selectSibling(tree, 'u1', -1)).toBe(tree);
+  });
+
+  it('returns the path from the root to a message', () => {
+    let tree = createMessageTree();
+    tree = addMessage(tree, message('u1', 'user'), null);
+    tree = addMessage(tree, message('a1', 'assistant'), 'u1');
+
+    expect(getPathTo(tree, 'a1').map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(getPathTo(tree, null)).toEqual([]);
+  });
+
+  it('rebuilds branches from stored parent ids', () => {
+    const at = (m: Message, time: number, parentId: string | null): Message => ({ ...m, timestamp: new Date(time), parentId });
+    const tree = buildMessageTree([
+      at(message('a2', 'assistant'), 3, 'u1'),
+      at(message('u1', 'user'), 1, null),
+      at(message('a1', 'assistant'), 2, 'u1'),
+      at(message('orphan', 'user'), 4, 'missing')
+    ]);
+
+    expect(getSiblingInfo(tree, 'a2')).toEqual({ index: 1, count: 2 });
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['orphan']);
+    expect(getPathTo(tree, 'a2').map(m => m.id)).toEqual(['u1', 'a2']);
+  });
+
+  it('reloads a branched conversation a page at a time', () => {
+    const at = (m: Message, time: number, parentId: string | null): Message => ({ ...m, timestamp: new Date(time), parentId });
+    // u1 -> a1 -> u2 -> (a2 | a2b); the newest page holds only the two answers
+    const older = [at(message('u1', 'user'), 1, null), at(message('a1', 'assistant'), 2, 'u1'), at(message('u2', 'user'), 3, 'a1')];
+    const newest = [at(message('a2', 'assistant'), 4, 'u2'), at(message('a2b', 'assistant'), 5, 'u2')];
+
+    let tree = mergeStoredMessages(createMessageTree(), newest);
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['a2b']);
+
+    tree = addMessage(tree, { ...message('u3', 'user'), timestamp: new Date(6) }, 'a2b');
+    tree = mergeStoredMessages(tree, [...older, ...newest]);
+
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a2b', 'u3']);
+    expect(getSiblingInfo(tree, 'a2b')).toEqual({ index: 1, count: 2 });
+
+    tree = selectSibling(tree, 'a2b', -1);
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('keeps the selected branch and local changes when merging', () => {
+    const at = (m: Message, time: number, parentId: string | null): Message => ({ ...m, timestamp: new Date(time), parentId });
+    const stored = [at(message('u1', 'user'), 1, null), at(message('a1', 'assistant'), 2, 'u1'), at(message('a1b', 'assistant'), 3, 'u1')];
+
+    let tree = selectSibling(mergeStoredMessages(createMessageTree(), stored), 'a1b', -1);
+    tree = { ...tree, messages: { ...tree.messages, a1: { ...tree.messages.a1, model: 'model-b' } } };
+    tree = mergeStoredMessages(tree, stored);
+
+    expect(getActivePath(tree).map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(tree.messages.a1.model).toBe('model-b');
+  });
+});
@@ -0,0 +1,134 @@
+// Branching message history for Checkmate Spec Preview
+// Every edit or regenerate adds a sibling under the same parent; the visible
+// thread is the "active path" obtained by following the selected child at
+// each level from the root.
+import type { Message } from './api';
+
+const ROOT = '';
+
+export interface MessageTree {
+  messages: Record<string, Message>;
+  // Child ids per parent id, in creation order ('' is the root)
+  children: Record<string, string[]>;
+  // Selected child id per parent id
+  activeChild: Record<string, string>;
+}
+
+export interface SiblingInfo {
+  index: number;
+  count: number;
+}
+
+export const createMessageTree = (): MessageTree => ({
+  messages: {},
+  children: {},
+  activeChild: {}
+});
+
+export const createMessageId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Append `message` under `parentId` (null for a first turn) and make it active
+export const addMessage = (tree: MessageTree, message: Message, parentId: string | null): MessageTree => {
+  const parentKey = parentId ?? ROOT;
+  return {
+    messages: { ...tree.messages, [message.id]: { ...message, parentId } },
+    children: { ...tree.children, [parentKey]: [...(tree.children[parentKey] ?? []), message.id] },
+    activeChild: { ...tree.activeChild, [parentKey]: message.id }
+  };
+};
+
+// Rebuild a branched tree from stored messages that carry their parentId.
+// Messages are added oldest first, so the newest branch at each level is active.
+export const buildMessageTree = (stored: Message[]): MessageTree =>
+  [...stored]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .reduce<MessageTree>(
+      (tree, message) => addMessage(tree, message, message.parentId && tree.messages[message.parentId] ? message.parentId : null),
+      createMessageTree()
+    );
+
+// Rebuild `tree` with stored messages added, e.g. a page of older history.
+// `stored` is every stored message loaded so far: a message whose parent was
+// not loaded yet sits at the top level until its parent arrives. Messages only
+// in `tree` (sent this session) keep their place, and so does the branch
+// selected at each level.
+export const mergeStoredMessages = (tree: MessageTree, stored: Message[]): MessageTree => {
+  const storedIds = new Set(stored.map(message => message.id));
+  // The local copy of a message wins over the stored one, except for its parent
+  const history = buildMessageTree(stored.map(message => ({ ...(tree.messages[message.id] ?? message), parentId: message.parentId })));
+  const merged = Object.values(tree.messages)
+    .filter(message => !storedIds.has(message.id))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .reduce<MessageTree>(
+      (result, message) => addMessage(result, message, message.parentId && result.messages[message.parentId] ? message.parentId : null),
+      history
+    );
+
+  const activeChild = { ...merged.activeChild };
+  Object.entries(tree.activeChild).forEach(([parentKey, childId]) => {
+    if (merged.children[parentKey]?.includes(childId)) activeChild[parentKey] = childId;
+  });
+
+  return { ...merged, activeChild };
+};
+
+// Replace the stored copy of a message, keeping its position in the tree
+export const updateMessage = (tree: MessageTree, id: string, update: Partial<Message>): MessageTree => {
+  const existing = tree.messages[id];
+  if (!existing) return tree;
+  return { ...tree, messages: { ...tree.messages, [id]: { ...existing, ...update } } };
+};
+
+export const getActivePath = (tree: MessageTree): Message[] => {
+  const path: Message[] = [];
+  let parentKey = ROOT;
+
+  while (tree.activeChild[parentKey]) {
+    const message = tree.messages[tree.activeChild[parentKey]];
+    if (!message) break;
+    path.push(message);
+    parentKey = message.id;
+  }
+
+  return path;
+};
+
+// Messages from the root down to (and including) `id`
+export const getPathTo = (tree: MessageTree, id: string | null): Message[] => {
+  const path: Message[] = [];
+  let current = id ? tree.messages[id] : undefined;
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? tree.messages[current.parentId] : undefined;
+  }
+
+  return path;
+};
+
+export const getActiveLeafId = (tree: MessageTree): string | null => {
+  const path = getActivePath(tree);
+  return path.length > 0 ? path[path.length - 1].id : null;
+};
+
+export const getSiblingInfo = (tree: MessageTree, id: string): SiblingInfo => {
+  const message = tree.messages[id];
+  const siblings = message ? tree.children[message.parentId ?? ROOT] ?? [] : [];
+  return { index: Math.max(siblings.indexOf(id), 0), count: Math.max(siblings.length, 1) };
+};
+
+// Switch to the previous (-1) or next (+1) sibling of a message
+export const selectSibling = (tree: MessageTree, id: string, direction: -1 | 1): MessageTree => {
+  const message = tree.messages[id];
+  if (!message) return tree;
+
+  const parentKey = message.parentId ?? ROOT;
+  const siblings = tree.children[parentKey] ?? [];
+  const nextId = siblings[siblings.indexOf(id) + direction];
+  if (!nextId) return tree;
+
+  return { ...tree, activeChild: { ...tree.activeChild, [parentKey]: nextId } };
+};
@@ -0,0 +1,98 @@
+import type { AIModel } from './api';
+
+const mockGetModels = jest.fn();
+jest.mock('./api', () => ({
+  chatAPI: { getModels: () => mockGetModels() }
+}));
+
+const model = (id: string, extra: Partial<AIModel> = {}): AIModel => ({
+  id,
+  name: id,
+  provider: 'Test',
+  description: '',
+  ...extra
+});
+
+// The registry keeps its list in module state, so each test gets a fresh copy
+const loadRegistry = async () => {
+  jest.resetModules();
+  return import('./model-registry');
+};
+
+describe('modelRegistry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockGetModels.mockReset();
+  });
+
+  it('replaces the built-in list with the backend one and caches it', async () => {
+    const served = [model('gpt-4'), model('groq-llama-3.1-70b', { recommended: true, context_window: 131072 })];
+    mockGetModels.mockResolvedValue({ models: served, external_apis: {} });
+    const { modelRegistry, getDefaultModelId } = await loadRegistry();
+
+    await modelRegistry.load();
+
+    expect(modelRegistry.getState()).toEqual({ models: served, source: 'server', isLoading: false });
+    expect(getDefaultModelId(served)).toBe('groq-llama-3.1-70b');
+    expect(JSON.parse(localStorage.getItem('model_registry')!).models).toEqual(served);
+  });
+
+  it('falls back to the cached list when the backend is down', async () => {
+    localStorage.setItem('model_registry', JSON.stringify({ models: [model('cached')], fetchedAt: 1 }));
+    mockGetModels.mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { modelRegistry } = await loadRegistry();
+
+    await modelRegistry.load();
+
+    expect(modelRegistry.getState()).toMatchObject({ models: [model('cached')], source: 'cache', isLoading: false });
+  });
+
+  it('keeps the built-in list when the backend lists no models', async () => {
+    mockGetModels.mockResolvedValue({ models: [], external_apis: {} });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { modelRegistry, FALLBACK_MODELS } = await loadRegistry();
+
+    await modelRegistry.load();
+
+    expect(modelRegistry.getState().models).toBe(FALLBACK_MODELS);
+    expect(modelRegistry.getState().source).toBe('fallback');
+  });
+
+  it('shares one request between concurrent loads', async () => {
+    mockGetModels.mockResolvedValue({ models: [model('gpt-4')], external_apis: {} });
+    const { modelRegistry } = await loadRegistry();
+
+    await Promise.all([modelRegistry.load(), modelRegistry.load()]);
+    await modelRegistry.load();
+
+    expect(mockGetModels).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('model helpers', () => {
+  it('prefers an available recommended model as the default', async () => {
+    const { getDefaultModelId } = await loadRegistry();
+
+    expect(getDefaultModelId([model('a'), model('b', { recommended: true, available: false }), model('c')])).toBe('a');
+    expect(getDefaultModelId([model('a', { available: false }), model('b', { recommended: true })])).toBe('b');
+  });
+
+  it('filters on every word across name, provider and feature labels', async () => {
+    const { filterModels } = await loadRegistry();
+    const models = [model('groq-8b', { provider: 'Groq', features: ['web_search'] }), model('gpt-4', { provider: 'OpenAI' })];
+
+    expect(filterModels(models, 'groq web').map(({ id }) => id)).toEqual(['groq-8b']);
+    expect(filterModels(models, '  ')).toBe(models);
+  });
+
+  it('groups models by provider in order of appearance', async () => {
+    const { groupByProvider } = await loadRegistry();
+    const groups = groupByProvider([model('a', { provider: 'Groq' }), model('b', { provider: 'OpenAI' }), model('c', { provider: 'Groq' })]);
+
+    expect(groups.map(({ provider, models }) => [provider, models.map(({ id }) => id)])).toEqual([
+      ['Groq', ['a', 'c']],
+      ['OpenAI', ['b']]
+    ]);
+  });
+});
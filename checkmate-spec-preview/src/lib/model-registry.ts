@@ -0,0 +1,165 @@
+// Model registry for Checkmate Spec Preview
+// The one list of chat models the UI offers. It is filled from
+// /api/chat/models, so a model added on the backend shows up without a
+// frontend release. The last list served is cached in localStorage and used
+// until the backend answers; the built-in list only covers a first visit
+// with the backend down.
+import { chatAPI, type AIModel } from './api';
+
+const CACHE_KEY = 'model_registry';
+
+// Used only when neither the backend nor the cache has a list
+export const FALLBACK_MODELS: AIModel[] = [
+  { id: 'openai/gpt-oss-120b', name: 'GPT-OSS-120B', provider: 'OpenAI', description: 'Open source 120B parameter model' },
+  { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', name: 'Llama-4 Maverick 17B', provider: 'Meta', description: '17B parameter model with 128 experts' },
+  { id: 'deepseek-r1-distill-llama-70b', name: 'DeepSeek R1 Distill Llama 70B', provider: 'DeepSeek', description: 'Distilled version of DeepSeek R1 with 70B parameters' },
+  { id: 'qwen/qwen3-32b', name: 'Qwen3 32B', provider: 'Qwen', description: 'Latest Qwen model with 32B parameters' },
+  { id: 'moonshotai/kimi-k2-instruct', name: 'Kimi K2 Instruct', provider: 'Moonshot AI', description: 'Kimi K2 instruction-following model' }
+];
+
+// Where the current list came from
+export type ModelSource = 'fallback' | 'cache' | 'server';
+
+export interface ModelRegistryState {
+  models: AIModel[];
+  source: ModelSource;
+  isLoading: boolean;
+}
+
+interface CachedModels {
+  models: AIModel[];
+  fetchedAt: number;
+}
+
+type Listener = (state: ModelRegistryState) => void;
+
+const listeners = new Set<Listener>();
+let state: ModelRegistryState = { models: FALLBACK_MODELS, source: 'fallback', isLoading: false };
+let loadPromise: Promise<void> | null = null;
+
+const setState = (update: Partial<ModelRegistryState>) => {
+  state = { ...state, ...update };
+  listeners.forEach(listener => listener(state));
+};
+
+const readCache = (): CachedModels | null => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null') as CachedModels | null;
+    return cached && Array.isArray(cached.models) && cached.models.length > 0 ? cached : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (models: AIModel[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ models, fetchedAt: Date.now() } satisfies CachedModels));
+  } catch (error) {
+    console.error('Failed to cache models:', error);
+  }
+};
+
+// Models without an `available` flag predate it and are assumed usable
+export const isModelAvailable = (model: AIModel): boolean => model.available !== false;
+
+// The model to select by default: the recommended one, else the first,
+// preferring models that are available
+export const getDefaultModelId = (models: AIModel[]): string => {
+  const usable = models.filter(isModelAvailable);
+  const candidates = usable.length > 0 ? usable : models;
+  return (candidates.find(model => model.recommended) ?? candidates[0])?.id ?? '';
+};
+
+// Display names for the feature flags the backend reports
+const FEATURE_LABELS: Record<string, string> = {
+  web_search: 'Web search',
+  crypto_data: 'Crypto',
+  news: 'News',
+  ultra_fast: 'Ultra fast',
+  instant: 'Instant'
+};
+
+// Unknown flags are shown as sentence-cased words
+export const getFeatureLabel = (feature: string): string => {
+  if (FEATURE_LABELS[feature]) return FEATURE_LABELS[feature];
+  const words = feature.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Models matching every word of `query` in their name, id, provider or features
+export const filterModels = (models: AIModel[], query: string): AIModel[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return models;
+
+  return models.filter(model => {
+    const haystack = [
+      model.name,
+      model.id,
+      model.provider,
+      ...(model.features ?? []).map(getFeatureLabel)
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export interface ProviderGroup {
+  provider: string;
+  models: AIModel[];
+}
+
+// Models grouped by provider, in the order providers first appear
+export const groupByProvider = (models: AIModel[]): ProviderGroup[] => {
+  const groups = new Map<string, AIModel[]>();
+  models.forEach(model => {
+    const provider = model.provider || 'Other';
+    groups.set(provider, [...(groups.get(provider) ?? []), model]);
+  });
+  return Array.from(groups, ([provider, grouped]) => ({ provider, models: grouped }));
+};
+
+export const modelRegistry = {
+  getState: (): ModelRegistryState => state,
+
+  getModel: (id: string): AIModel | undefined => state.models.find(model => model.id === id),
+
+  // Show the cached list right away, then replace it with the backend's.
+  // Concurrent callers share one request; later calls refetch only when
+  // `force` is set.
+  load: (force: boolean = false): Promise<void> => {
+    if (loadPromise) return loadPromise;
+    if (state.source === 'server' && !force) return Promise.resolve();
+
+    if (state.source === 'fallback') {
+      const cached = readCache();
+      if (cached) setState({ models: cached.models, source: 'cache' });
+    }
+
+    setState({ isLoading: true });
+    loadPromise = chatAPI.getModels()
+      .then(({ models }) => {
+        if (models.length === 0) {
+          // Keep offering something to chat with
+          console.warn('The backend listed no models, keeping the current list');
+          setState({ isLoading: false });
+          return;
+        }
+        writeCache(models);
+        setState({ models, source: 'server', isLoading: false });
+      })
+      .catch(error => {
+        console.error('Failed to load models:', error);
+        setState({ isLoading: false });
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+    return loadPromise;
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
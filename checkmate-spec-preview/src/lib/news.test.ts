@@ -0,0 +1,57 @@
+import type { NewsItem } from './api';
+import { buildNewsDiscussionPrompt, clusterStories, formatArticleAge } from './news';
+
+const article = (title: string, source: string, extra: Partial<NewsItem> = {}): NewsItem => ({
+  title,
+  description: `${title} summary`,
+  url: `https://${source}/${encodeURIComponent(title)}`,
+  source,
+  ...extra
+});
+
+describe('clusterStories', () => {
+  it('groups the same story across outlets, in feed order', () => {
+    const clusters = clusterStories([
+      article('Fed cuts interest rates by a quarter point - Reuters', 'reuters.com'),
+      article('Oil prices slide as demand weakens', 'ft.com'),
+      article('The Fed cuts interest rates by quarter point', 'cnbc.com')
+    ]);
+
+    expect(clusters.map(({ lead, related }) => [lead.source, related.map(item => item.source)])).toEqual([
+      ['reuters.com', ['cnbc.com']],
+      ['ft.com', []]
+    ]);
+  });
+
+  it('does not count the same link twice', () => {
+    const item = article('Bitcoin tops record high', 'coindesk.com');
+
+    expect(clusterStories([item, { ...item }])).toEqual([{ id: item.url, lead: item, related: [] }]);
+  });
+});
+
+describe('formatArticleAge', () => {
+  it('counts from a timestamp and passes worded ages through', () => {
+    const now = new Date('2024-05-01T12:00:00Z');
+
+    expect(formatArticleAge(article('A', 'a.com', { published_at: '2024-05-01T09:00:00Z' }), now)).toBe('3h ago');
+    expect(formatArticleAge(article('A', 'a.com', { published: '2 hours ago' }), now)).toBe('2 hours ago');
+    expect(formatArticleAge(article('A', 'a.com'), now)).toBe('');
+  });
+});
+
+describe('buildNewsDiscussionPrompt', () => {
+  it('lists each story with its outlets, link and summary', () => {
+    const [cluster] = clusterStories([
+      article('Fed cuts interest rates', 'reuters.com'),
+      article('Fed cuts interest rates again', 'cnbc.com')
+    ]);
+
+    expect(buildNewsDiscussionPrompt([cluster])).toBe(
+      "Let's discuss these news stories:\n\n" +
+      '1. Fed cuts interest rates (reuters.com, cnbc.com)\n' +
+      '   https://reuters.com/Fed%20cuts%20interest%20rates\n' +
+      '   Fed cuts interest rates summary\n\n'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+// News feed helpers for Checkmate Spec Preview
+// Outlets often run the same story under slightly different headlines; the
+// feed clusters those so a briefing lists each story once, with every
+// outlet that covered it.
+import type { NewsItem } from './api';
+import { formatRelativeTime } from './utils';
+
+export interface NewsCluster {
+  // The first outlet's URL (or title) identifies the story
+  id: string;
+  lead: NewsItem;
+  // Other outlets' versions of the same story
+  related: NewsItem[];
+}
+
+// Headlines sharing at least this share of their words are one story
+const SAME_STORY_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'says', 'that', 'the', 'to', 'was', 'will', 'with'
+]);
+
+// Significant words of a headline, without a trailing " - Outlet" or " | Outlet"
+const headlineWords = (title: string): Set<string> => {
+  const headline = title.replace(/\s+[-|–—]\s+[^-|–—]+$/, '');
+  // ASCII and general punctuation go; letters of any script stay
+  const words = headline.toLowerCase().replace(/[^\w\s\u00C0-\uFFFF]|[\u2010-\u206F]/g, ' ').split(/\s+/);
+  return new Set(words.filter(word => word && !STOP_WORDS.has(word)));
+};
+
+// Jaccard similarity of two word sets
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// Group articles about the same story, keeping the feed's order: each
+// cluster sits where its first article did
+export const clusterStories = (items: NewsItem[]): NewsCluster[] => {
+  const clusters: (NewsCluster & { words: Set<string> })[] = [];
+
+  items.forEach(item => {
+    const words = headlineWords(item.title);
+    const match = clusters.find(cluster =>
+      (item.url && cluster.lead.url === item.url) || similarity(cluster.words, words) >= SAME_STORY_SIMILARITY
+    );
+
+    if (match) {
+      // The same link twice is not another outlet
+      if (!(item.url && [match.lead, ...match.related].some(other => other.url === item.url))) {
+        match.related.push(item);
+      }
+    } else {
+      clusters.push({ id: item.url || item.title, lead: item, related: [], words });
+    }
+  });
+
+  return clusters.map(({ id, lead, related }) => ({ id, lead, related }));
+};
+
+// Outlet name for an article: the one reported, else the link's host
+export const getOutlet = (item: NewsItem): string => {
+  if (item.source) return item.source.replace(/^www\./, '');
+  try {
+    return item.url ? new URL(item.url).hostname.replace(/^www\./, '') : '';
+  } catch {
+    return '';
+  }
+};
+
+// How old an article is. `published` is either a timestamp or already a
+// phrase like "3 hours ago", which is shown as is.
+export const formatArticleAge = (item: NewsItem, now: Date = new Date()): string => {
+  const published = item.published_at || item.published;
+  if (!published) return '';
+  const timestamp = Date.parse(published);
+  return Number.isNaN(timestamp) ? published : formatRelativeTime(new Date(timestamp), now);
+};
+
+// First message of a chat about `clusters`: each story with its outlets and
+// summary, then room for the user's question
+export const buildNewsDiscussionPrompt = (clusters: NewsCluster[], now: Date = new Date()): string => {
+  const stories = clusters.map(({ lead, related }, index) => {
+    const outlets = [lead, ...related].map(getOutlet).filter(Boolean);
+    const details = [Array.from(new Set(outlets)).join(', '), formatArticleAge(lead, now)].filter(Boolean).join(', ');
+    const lines = [`${index + 1}. ${lead.title}${details ? ` (${details})` : ''}`];
+    if (lead.url) lines.push(`   ${lead.url}`);
+    if (lead.description) lines.push(`   ${lead.description}`);
+    return lines.join('\n');
+  });
+
+  return `Let's discuss these news stories:\n\n${stories.join('\n\n')}\n\n`;
+};
@@ -0,0 +1,44 @@
+import { assignNewChatMessages, enqueueMessage, getNextQueued, getQueuedMessages, readOutbox, removeFromOutbox } from './outbox';
+
+describe('outbox', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('queues messages per conversation in order', () => {
+    enqueueMessage('conv_1', 'second', 2);
+    enqueueMessage('conv_2', 'elsewhere', 1);
+    const items = enqueueMessage('conv_1', 'first', 1);
+
+    expect(getQueuedMessages(items, 'conv_1').map(item => item.content)).toEqual(['first', 'second']);
+    expect(getQueuedMessages(readOutbox(), 'conv_2')).toHaveLength(1);
+  });
+
+  it('sends the oldest message first, whichever chat it was written in', () => {
+    enqueueMessage('conv_1', 'later', 3);
+    enqueueMessage('conv_2', 'earliest', 1);
+    const items = enqueueMessage(null, 'new chat', 2);
+
+    expect(getNextQueued(items)?.content).toBe('earliest');
+    expect(getNextQueued([])).toBeNull();
+  });
+
+  it('moves a new chat queue into the conversation it created', () => {
+    enqueueMessage(null, 'hello', 1);
+    enqueueMessage(null, 'are you there?', 2);
+    const [first] = readOutbox();
+
+    removeFromOutbox(first.id);
+    const items = assignNewChatMessages('conv_9');
+
+    expect(items).toEqual([expect.objectContaining({ conversationId: 'conv_9', content: 'are you there?' })]);
+    expect(getQueuedMessages(items, null)).toEqual([]);
+  });
+
+  it('clears storage once the queue is empty', () => {
+    const [item] = enqueueMessage('conv_1', 'only');
+    removeFromOutbox(item.id);
+
+    expect(localStorage.getItem('chat_outbox')).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+// Outbox for messages written while offline
+// Queued messages are kept in localStorage and sent in order once the
+// browser is back online, each into the conversation it was written in.
+import { createMessageId } from './message-tree';
+
+export const OUTBOX_KEY = 'chat_outbox';
+
+export interface OutboxItem {
+  id: string;
+  // null while the chat it belongs to has not been created yet
+  conversationId: string | null;
+  content: string;
+  createdAt: number;
+  // Tools picked in the composer when it was written
+  tools?: string[];
+}
+
+export const readOutbox = (): OutboxItem[] => {
+  try {
+    const items = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeOutbox = (items: OutboxItem[]): OutboxItem[] => {
+  if (items.length > 0) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  } else {
+    localStorage.removeItem(OUTBOX_KEY);
+  }
+  return items;
+};
+
+export const enqueueMessage = (
+  conversationId: string | null,
+  content: string,
+  now: number = Date.now(),
+  tools?: string[]
+): OutboxItem[] =>
+  writeOutbox([...readOutbox(), { id: createMessageId(), conversationId, content, createdAt: now, tools }]);
+
+export const removeFromOutbox = (id: string): OutboxItem[] =>
+  writeOutbox(readOutbox().filter(item => item.id !== id));
+
+// Once the first queued message of a new chat has created it, the rest of
+// that chat's queue belongs to the new conversation
+export const assignNewChatMessages = (conversationId: string): OutboxItem[] =>
+  writeOutbox(readOutbox().map(item => (item.conversationId === null ? { ...item, conversationId } : item)));
+
+// Queued messages for one conversation, oldest first
+export const getQueuedMessages = (items: OutboxItem[], conversationId: string | null): OutboxItem[] =>
+  items
+    .filter(item => item.conversationId === conversationId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+// The message to send next: the oldest queued, whichever chat it belongs to
+export const getNextQueued = (items: OutboxItem[]): OutboxItem | null =>
+  items.reduce<OutboxItem | null>((oldest, item) => (!oldest || item.createdAt < oldest.createdAt ? item : oldest), null);
+
+// Drop everything queued, e.g. when the user signs out of a shared machine
+export const clearOutbox = () => {
+  localStorage.removeItem(OUTBOX_KEY);
+};
@@ -0,0 +1,34 @@
+import { NetworkError, RateLimitError, ServerError, ValidationError } from './errors';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, getRetryDelayFor } from './retry';
+
+const policy = { retries: 3, baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+describe('getRetryDelay', () => {
+  it('doubles the delay up to the cap', () => {
+    expect([0, 1, 2, 3, 4].map(attempt => getRetryDelay(attempt, policy))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('spreads delays between zero and the cap with jitter', () => {
+    expect(getRetryDelay(2, { ...policy, jitter: true }, () => 0.5)).toBe(200);
+    expect(getRetryDelay(2, { ...policy, jitter: true }, () => 0)).toBe(0);
+  });
+});
+
+describe('getRetryDelayFor', () => {
+  it('retries transient failures until the attempts run out', () => {
+    expect(getRetryDelayFor(new NetworkError(), 0, policy)).toBe(100);
+    expect(getRetryDelayFor(new ServerError('Bad gateway', 502), 2, policy)).toBe(400);
+    expect(getRetryDelayFor(new NetworkError(), 3, policy)).toBeNull();
+  });
+
+  it('does not retry client errors or server bugs', () => {
+    expect(getRetryDelayFor(new ValidationError('Bad request', [], 400), 0, policy)).toBeNull();
+    expect(getRetryDelayFor(new ServerError('Internal error', 500), 0, policy)).toBeNull();
+  });
+
+  it('honors Retry-After within the maximum delay', () => {
+    expect(getRetryDelayFor(new RateLimitError(600), 0, policy)).toBe(600);
+    expect(getRetryDelayFor(new RateLimitError(60000), 0, policy)).toBeNull();
+    expect(getRetryDelayFor(new RateLimitError(null), 1, DEFAULT_RETRY_POLICY, () => 1)).toBe(1000);
+  });
+});
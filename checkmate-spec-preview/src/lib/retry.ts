@@ -0,0 +1,54 @@
+// Retry policy for idempotent API requests
+// Delays grow exponentially and use "full jitter" (a random delay between
+// zero and the exponential cap) so clients that failed together do not
+// retry in lockstep.
+import { ApiError, NetworkError, RateLimitError, ServerError, TimeoutError } from './errors';
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Spread delays randomly between 0 and the exponential cap
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: true
+};
+
+// Methods that are safe to send twice
+export const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+// Delay before retry number `attempt` (0 for the first retry)
+export const getRetryDelay = (attempt: number, policy: RetryPolicy, random: () => number = Math.random): number => {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return policy.jitter ? Math.round(random() * cap) : cap;
+};
+
+// Transient failures worth another try; 501 and other server bugs are not
+export const isRetryableError = (error: ApiError): boolean =>
+  error instanceof NetworkError ||
+  error instanceof TimeoutError ||
+  error instanceof RateLimitError ||
+  (error instanceof ServerError && [502, 503, 504].includes(error.status ?? 0));
+
+// How long to wait before retrying `error`, or null to give up. A server's
+// Retry-After wins over the computed backoff, but never past maxDelayMs.
+export const getRetryDelayFor = (
+  error: ApiError,
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number | null => {
+  if (attempt >= policy.retries || !isRetryableError(error)) return null;
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+  return getRetryDelay(attempt, policy, random);
+};
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
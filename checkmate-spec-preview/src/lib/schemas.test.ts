@@ -0,0 +1,57 @@
+import {
+  ApiHealthSchema,
+  ChatStreamEventSchema,
+  CryptoMarketResponseSchema,
+  isUpstreamError,
+  parseResponse,
+  ResponseValidationError,
+  SearchResponseSchema
+} from './schemas';
+
+describe('parseResponse', () => {
+  it('returns data that matches the schema', () => {
+    const data = {
+      success: true,
+      query: 'next.js',
+      results: [{ title: 'Next.js', description: 'The React framework', url: 'https://nextjs.org', type: 'web' }],
+      count: 1
+    };
+
+    expect(parseResponse(SearchResponseSchema, data, 'GET /api/external/search')).toEqual(data);
+  });
+
+  it('throws a ResponseValidationError naming the endpoint and field', () => {
+    const drifted = { brave_search: 'ok', binance: true, apis_configured: {} };
+
+    expect(() => parseResponse(ApiHealthSchema, drifted, 'GET /api/external/health')).toThrow(ResponseValidationError);
+
+    try {
+      parseResponse(ApiHealthSchema, drifted, 'GET /api/external/health');
+    } catch (error) {
+      expect((error as ResponseValidationError).endpoint).toBe('GET /api/external/health');
+      expect((error as ResponseValidationError).issues[0]).toMatch(/^brave_search:/);
+    }
+  });
+});
+
+describe('crypto market data', () => {
+  it('accepts tickers keyed by symbol or an upstream error', () => {
+    const ticker = { symbol: 'BTCUSDT', price: 1, change: 2, volume: 3, high: 4, low: 0.5, openPrice: 1 };
+    const ok = parseResponse(CryptoMarketResponseSchema, { success: true, data: { BTCUSDT: ticker }, timestamp: 'now' }, 'market');
+    const failed = parseResponse(CryptoMarketResponseSchema, { success: true, data: { error: 'rate limited' }, timestamp: 'now' }, 'market');
+
+    expect(isUpstreamError(ok.data)).toBe(false);
+    expect(isUpstreamError(failed.data)).toBe(true);
+  });
+});
+
+describe('ChatStreamEventSchema', () => {
+  it('discriminates events by type', () => {
+    expect(ChatStreamEventSchema.parse({ type: 'content', content: 'Hi', finished: false })).toEqual({
+      type: 'content',
+      content: 'Hi',
+      finished: false
+    });
+    expect(ChatStreamEventSchema.safeParse({ type: 'content' }).success).toBe(false);
+  });
+});
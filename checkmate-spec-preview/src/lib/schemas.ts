@@ -0,0 +1,239 @@
+// Runtime schemas for backend responses
+// Every payload the client reads is checked here, so a change in the
+// backend's shape fails loudly at the API boundary instead of rendering
+// an empty dashboard.
+import { z } from 'zod';
+import { ValidationError } from './errors';
+
+// Raised when a response body does not match its schema
+export class ResponseValidationError extends ValidationError {
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.join('; ')}`, issues, null, endpoint);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+// Validate `data` against `schema`, throwing ResponseValidationError on mismatch
+export const parseResponse = <T extends z.ZodType>(schema: T, data: unknown, endpoint: string): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ResponseValidationError(
+      endpoint,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+};
+
+// Upstream services (Brave, Binance) report failures inside `data`
+export const UpstreamErrorSchema = z.object({ error: z.string() });
+export type UpstreamError = z.infer<typeof UpstreamErrorSchema>;
+
+export const isUpstreamError = (value: unknown): value is UpstreamError =>
+  UpstreamErrorSchema.safeParse(value).success;
+
+// Search
+
+export const SearchResultSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  url: z.string().optional(),
+  published: z.string().optional(),
+  type: z.enum(['web', 'news']).optional()
+});
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+export const NewsItemSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  url: z.string().optional(),
+  // How long ago, as the search API words it ("3 hours ago")
+  published: z.string().optional(),
+  // When, as an ISO timestamp
+  published_at: z.string().optional(),
+  source: z.string().optional()
+});
+export type NewsItem = z.infer<typeof NewsItemSchema>;
+
+export const SearchResponseSchema = z.object({
+  success: z.boolean(),
+  query: z.string(),
+  results: z.array(SearchResultSchema),
+  count: z.number()
+});
+export type SearchResponse = z.infer<typeof SearchResponseSchema>;
+
+export const NewsResponseSchema = SearchResponseSchema.extend({
+  results: z.array(NewsItemSchema)
+});
+export type NewsResponse = z.infer<typeof NewsResponseSchema>;
+
+// Crypto
+
+export const TickerSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  change: z.number(),
+  volume: z.number(),
+  high: z.number(),
+  low: z.number(),
+  openPrice: z.number()
+});
+export type Ticker = z.infer<typeof TickerSchema>;
+
+export const CryptoMarketResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.union([UpstreamErrorSchema, z.record(z.string(), TickerSchema)]),
+  timestamp: z.string()
+});
+export type CryptoMarketResponse = z.infer<typeof CryptoMarketResponseSchema>;
+
+export const PriceSchema = z.object({
+  symbol: z.string(),
+  price: z.number()
+});
+export type Price = z.infer<typeof PriceSchema>;
+
+export const CryptoPriceResponseSchema = z.object({
+  success: z.boolean(),
+  symbol: z.string(),
+  data: z.union([UpstreamErrorSchema, PriceSchema])
+});
+export type CryptoPriceResponse = z.infer<typeof CryptoPriceResponseSchema>;
+
+export const MoverSchema = z.object({
+  symbol: z.string(),
+  price: z.number(),
+  change: z.number(),
+  volume: z.number()
+});
+export type Mover = z.infer<typeof MoverSchema>;
+
+export const GainersLosersSchema = z.object({
+  gainers: z.array(MoverSchema),
+  losers: z.array(MoverSchema)
+});
+export type GainersLosers = z.infer<typeof GainersLosersSchema>;
+
+export const TrendingCryptoResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.union([UpstreamErrorSchema, GainersLosersSchema])
+});
+export type TrendingCryptoResponse = z.infer<typeof TrendingCryptoResponseSchema>;
+
+// Health
+
+// Reachability of each external API, plus which ones have keys configured
+export const ApiHealthSchema = z.object({
+  brave_search: z.boolean(),
+  binance: z.boolean(),
+  apis_configured: z.record(z.string(), z.boolean())
+});
+export type ApiHealth = z.infer<typeof ApiHealthSchema>;
+
+export const HealthResponseSchema = z.object({
+  status: z.string(),
+  service: z.string()
+});
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
+
+export const StatusResponseSchema = z.looseObject({
+  status: z.string()
+});
+export type StatusResponse = z.infer<typeof StatusResponseSchema>;
+
+// Chat
+
+export const AIModelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  provider: z.string(),
+  description: z.string(),
+  context_window: z.number().optional(),
+  features: z.array(z.string()).optional(),
+  recommended: z.boolean().optional(),
+  available: z.boolean().optional(),
+  unavailable_reason: z.string().optional()
+});
+
+export const ModelsResponseSchema = z.object({
+  models: z.array(AIModelSchema),
+  external_apis: z.record(z.string(), z.string())
+});
+export type ModelsResponse = z.infer<typeof ModelsResponseSchema>;
+
+export const ChatCapabilitiesSchema = z.object({
+  features: z.array(z.string()),
+  models_available: z.number(),
+  external_apis: z.number(),
+  real_time_data: z.boolean(),
+  streaming: z.boolean()
+});
+export type ChatCapabilities = z.infer<typeof ChatCapabilitiesSchema>;
+
+// A web page an answer drew from; the answer cites it as [n], counting from 1
+export const ChatSourceSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  snippet: z.string().optional()
+});
+export type ChatSource = z.infer<typeof ChatSourceSchema>;
+
+// Events on the chat SSE stream, discriminated by `type`
+export const ChatStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('content'),
+    content: z.string(),
+    finished: z.boolean().optional()
+  }),
+  z.object({
+    type: z.literal('done'),
+    content: z.string().optional(),
+    finished: z.boolean().optional(),
+    enhanced_features: z.array(z.string()).optional(),
+    tools_used: z.array(z.string()).optional(),
+    sources: z.array(ChatSourceSchema).optional()
+  }),
+  z.object({
+    type: z.literal('error'),
+    content: z.string(),
+    finished: z.boolean().optional()
+  })
+]);
+export type ChatStreamEvent = z.infer<typeof ChatStreamEventSchema>;
+export type ChatStreamDone = Extract<ChatStreamEvent, { type: 'done' }>;
+
+export const CHAT_STREAM_EVENT_TYPES: ReadonlyArray<ChatStreamEvent['type']> = ['content', 'done', 'error'];
+
+// Frames sent by the server on the chat WebSocket, discriminated by `type`.
+// Answers carry the request_id of the chat frame they belong to.
+export const ChatServerFrameSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('auth_ok') }),
+  z.object({ type: z.literal('pong') }),
+  z.object({
+    type: z.literal('user_message'),
+    request_id: z.string().nullish(),
+    content: z.string(),
+    timestamp: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('ai_chunk'),
+    request_id: z.string().nullish(),
+    content: z.string()
+  }),
+  z.object({
+    type: z.literal('ai_message_complete'),
+    request_id: z.string().nullish(),
+    content: z.string(),
+    features_used: z.array(z.string()).optional(),
+    tools_used: z.array(z.string()).optional(),
+    sources: z.array(ChatSourceSchema).optional(),
+    timestamp: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('error'),
+    request_id: z.string().nullish(),
+    content: z.string()
+  })
+]);
+export type ChatServerFrame = z.infer<typeof ChatServerFrameSchema>;
@@ -0,0 +1,77 @@
+import { authorizedFetch, getTokenExpiry, sessionManager } from './session';
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const makeToken = (exp: number) => `${base64Url({ alg: 'HS256' })}.${base64Url({ sub: 'demo', exp })}.signature`;
+
+const jsonResponse = (status: number, body: unknown = {}) =>
+  ({ status, ok: status >= 200 && status < 300, json: async () => body }) as Response;
+
+describe('getTokenExpiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(getTokenExpiry(makeToken(1700000000))).toBe(1700000000 * 1000);
+  });
+
+  it('returns null for tokens it cannot decode', () => {
+    expect(getTokenExpiry('not-a-jwt')).toBeNull();
+  });
+});
+
+describe('sessionManager', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    localStorage.setItem('access_token', makeToken(now + 10));
+    localStorage.setItem('refresh_token', 'refresh-1');
+    const fresh = makeToken(now + 3600);
+    fetchMock.mockResolvedValue(jsonResponse(200, { access_token: fresh, refresh_token: 'refresh-2' }));
+
+    const tokens = await Promise.all([
+      sessionManager.getValidAccessToken(),
+      sessionManager.getValidAccessToken(),
+      sessionManager.getValidAccessToken()
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(tokens).toEqual([fresh, fresh, fresh]);
+    expect(localStorage.getItem('refresh_token')).toBe('refresh-2');
+  });
+
+  it('expires the session when the refresh token is rejected', async () => {
+    localStorage.setItem('access_token', makeToken(now + 10));
+    localStorage.setItem('refresh_token', 'revoked');
+    fetchMock.mockResolvedValue(jsonResponse(401));
+    const listener = jest.fn();
+    const unsubscribe = sessionManager.subscribe(listener);
+
+    await expect(sessionManager.refresh()).resolves.toBeNull();
+
+    expect(listener).toHaveBeenCalledWith({ type: 'expired' });
+    expect(sessionManager.getStatus()).toBe('expired');
+    expect(localStorage.getItem('access_token')).toBeNull();
+    unsubscribe();
+  });
+
+  it('retries a fetch once after refreshing on 401', async () => {
+    localStorage.setItem('access_token', makeToken(now + 3600));
+    localStorage.setItem('refresh_token', 'refresh-1');
+    const fresh = makeToken(now + 7200);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(401))
+      .mockResolvedValueOnce(jsonResponse(200, { access_token: fresh, refresh_token: 'refresh-2' }))
+      .mockResolvedValueOnce(jsonResponse(200));
+
+    const response = await authorizedFetch('/api/chat/conversations/1/chat', { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect(new Headers(fetchMock.mock.calls[2][1].headers).get('Authorization')).toBe(`Bearer ${fresh}`);
+  });
+});
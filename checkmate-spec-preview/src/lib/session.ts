@@ -0,0 +1,246 @@
+// Session lifecycle for Checkmate Spec Preview
+// Keeps the access token fresh (refreshing shortly before its JWT `exp`),
+// makes concurrent requests share a single refresh, and tells every open
+// tab when the session ends so none of them redirects mid-draft.
+import { API_BASE_URL } from './config';
+
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const CHANNEL_NAME = 'checkmate-session';
+const REFRESH_LOCK = 'checkmate-token-refresh';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token?: string | null;
+}
+
+export type SessionStatus = 'authenticated' | 'anonymous' | 'expired';
+
+export type SessionEvent =
+  | { type: 'refreshed' }
+  | { type: 'logged-in' }
+  | { type: 'logged-out' }
+  | { type: 'expired' };
+
+type Listener = (event: SessionEvent) => void;
+
+const listeners = new Set<Listener>();
+let refreshPromise: Promise<string | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let channel: BroadcastChannel | null = null;
+let expired = false;
+
+const isBrowser = () => typeof window !== 'undefined';
+
+// Expiry (ms since epoch) from a JWT's `exp` claim, or null if unreadable
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '='));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const readToken = (key: string) => (isBrowser() ? localStorage.getItem(key) : null);
+
+const emit = (event: SessionEvent) => {
+  listeners.forEach(listener => listener(event));
+};
+
+// Tell the other tabs; they apply the event without re-broadcasting it
+const broadcast = (event: SessionEvent) => {
+  channel?.postMessage(event);
+};
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+};
+
+const scheduleRefresh = () => {
+  clearRefreshTimer();
+  const token = readToken(ACCESS_TOKEN_KEY);
+  const expiry = token ? getTokenExpiry(token) : null;
+  if (!expiry || !readToken(REFRESH_TOKEN_KEY)) return;
+
+  const delay = Math.max(0, expiry - REFRESH_MARGIN_MS - Date.now());
+  refreshTimer = setTimeout(() => {
+    sessionManager.refresh().catch(() => {});
+  }, delay);
+};
+
+const clearTokens = () => {
+  clearRefreshTimer();
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+const needsRefresh = (token: string | null) => {
+  if (!token) return true;
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - REFRESH_MARGIN_MS <= Date.now();
+};
+
+const requestNewTokens = async (refreshToken: string): Promise<SessionTokens | null> => {
+  const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken })
+  });
+  // 401/403 mean the refresh token itself is no longer valid
+  if (response.status === 401 || response.status === 403) return null;
+  if (!response.ok) throw new Error(`Token refresh failed with status ${response.status}`);
+  return response.json();
+};
+
+// Replace `staleToken`, unless another request or tab already has
+const runRefresh = async (staleToken: string | null): Promise<string | null> => {
+  const current = readToken(ACCESS_TOKEN_KEY);
+  if (current && current !== staleToken && !needsRefresh(current)) return current;
+
+  const refreshToken = readToken(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  const tokens = await requestNewTokens(refreshToken);
+  if (!tokens) return null;
+
+  sessionManager.setTokens(tokens, 'refreshed');
+  return tokens.access_token;
+};
+
+export const sessionManager = {
+  // Begin tracking the stored session: schedule the next refresh and listen
+  // for other tabs. Safe to call more than once.
+  start: () => {
+    if (!isBrowser()) return;
+
+    if (!channel && 'BroadcastChannel' in window) {
+      channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = ({ data }: MessageEvent<SessionEvent>) => {
+        if (data.type === 'logged-out' || data.type === 'expired') {
+          clearRefreshTimer();
+          expired = data.type === 'expired';
+        } else {
+          expired = false;
+          scheduleRefresh();
+        }
+        emit(data);
+      };
+    }
+
+    scheduleRefresh();
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  getStatus: (): SessionStatus => {
+    if (expired) return 'expired';
+    return readToken(ACCESS_TOKEN_KEY) ? 'authenticated' : 'anonymous';
+  },
+
+  getAccessToken: () => readToken(ACCESS_TOKEN_KEY),
+
+  hasRefreshToken: () => Boolean(readToken(REFRESH_TOKEN_KEY)),
+
+  // Store tokens from a login or refresh response
+  setTokens: (tokens: SessionTokens, reason: 'logged-in' | 'refreshed' = 'logged-in') => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access_token);
+    if (tokens.refresh_token) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+    }
+    expired = false;
+    scheduleRefresh();
+
+    const event: SessionEvent = { type: reason };
+    emit(event);
+    broadcast(event);
+  },
+
+  // Refresh the access token that is expiring or was rejected (`staleToken`,
+  // the stored one by default). Concurrent callers share one request, and tabs
+  // take turns through a Web Lock so a rotated refresh token is used once.
+  refresh: (staleToken: string | null = readToken(ACCESS_TOKEN_KEY)): Promise<string | null> => {
+    if (!refreshPromise) {
+      const locked = isBrowser() && 'locks' in navigator
+        ? navigator.locks.request(REFRESH_LOCK, () => runRefresh(staleToken))
+        : runRefresh(staleToken);
+
+      refreshPromise = locked
+        .then(token => {
+          if (!token) sessionManager.expire();
+          return token;
+        })
+        .finally(() => {
+          refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+  },
+
+  // A token that is valid now, refreshing first if it is about to expire.
+  // Null when there is no session.
+  getValidAccessToken: async (): Promise<string | null> => {
+    const token = readToken(ACCESS_TOKEN_KEY);
+    if (!refreshPromise && (!token || !needsRefresh(token) || !readToken(REFRESH_TOKEN_KEY))) return token;
+
+    try {
+      return await (refreshPromise ?? sessionManager.refresh());
+    } catch (error) {
+      // Let the request go out and fail on its own if refreshing is down
+      console.error('Failed to refresh session:', error);
+      return token;
+    }
+  },
+
+  // The server rejected our credentials and they cannot be refreshed
+  expire: () => {
+    if (!isBrowser() || !readToken(ACCESS_TOKEN_KEY)) return;
+
+    clearTokens();
+    expired = true;
+    emit({ type: 'expired' });
+    broadcast({ type: 'expired' });
+  },
+
+  logout: () => {
+    if (!isBrowser()) return;
+
+    clearTokens();
+    expired = false;
+    emit({ type: 'logged-out' });
+    broadcast({ type: 'logged-out' });
+  }
+};
+
+// fetch() with the session's bearer token. A 401 triggers one refresh and
+// retry; if that fails too the session is expired.
+export const authorizedFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return fetch(url, { ...init, headers });
+  };
+
+  const token = await sessionManager.getValidAccessToken();
+  let response = await send(token);
+
+  if (response.status === 401 && sessionManager.hasRefreshToken()) {
+    const refreshed = await sessionManager.refresh(token);
+    if (refreshed) response = await send(refreshed);
+  }
+
+  if (response.status === 401) sessionManager.expire();
+  return response;
+};
@@ -0,0 +1,73 @@
+import { createEventStreamParser, readEventStream, type ServerSentEvent } from './sse';
+
+const collect = (chunks: string[]) => {
+  const events: ServerSentEvent[] = [];
+  const parser = createEventStreamParser(event => events.push(event));
+  chunks.forEach(chunk => parser.feed(chunk));
+  return { events, parser };
+};
+
+describe('createEventStreamParser', () => {
+  it('parses a complete data event', () => {
+    const { events } = collect(['data: {"type":"content","content":"Hi"}\n\n']);
+
+    expect(events).toEqual([
+      { event: 'message', data: '{"type":"content","content":"Hi"}', id: undefined, retry: undefined }
+    ]);
+  });
+
+  it('buffers a data line split across chunks', () => {
+    const { events } = collect(['data: {"type":"con', 'tent","content":"Hi"}\n', '\n']);
+
+    expect(events).toHaveLength(1);
+    expect(JSON.parse(events[0].data)).toEqual({ type: 'content', content: 'Hi' });
+  });
+
+  it('handles \\r\\n split across chunks', () => {
+    const { events } = collect(['data: a\r', '\n\r', '\n']);
+
+    expect(events.map(e => e.data)).toEqual(['a']);
+  });
+
+  it('joins multi-line data and reads event, id and retry fields', () => {
+    const { events } = collect(['event: update\nid: 7\nretry: 3000\ndata: one\ndata: two\n\n']);
+
+    expect(events).toEqual([{ event: 'update', data: 'one\ntwo', id: '7', retry: 3000 }]);
+  });
+
+  it('ignores comments and events without data', () => {
+    const { events } = collect([': keep-alive\n\nevent: ping\n\n']);
+
+    expect(events).toHaveLength(0);
+  });
+
+  it('dispatches an unterminated event on flush', () => {
+    const { events, parser } = collect(['data: tail']);
+    expect(events).toHaveLength(0);
+
+    parser.flush();
+
+    expect(events.map(e => e.data)).toEqual(['tail']);
+  });
+});
+
+describe('readEventStream', () => {
+  it('decodes multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: สวัสดี 👋\n\n');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // Split in the middle of a multi-byte sequence
+        controller.enqueue(bytes.slice(0, 8));
+        controller.enqueue(bytes.slice(8));
+        controller.close();
+      }
+    });
+
+    const events: ServerSentEvent[] = [];
+    for await (const event of readEventStream(stream)) {
+      events.push(event);
+    }
+
+    expect(events.map(e => e.data)).toEqual(['สวัสดี 👋']);
+  });
+});
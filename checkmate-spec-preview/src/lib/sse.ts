@@ -0,0 +1,133 @@
+// Incremental parser for text/event-stream responses
+// Follows the WHATWG Server-Sent Events parsing rules so that frames split
+// across network chunks (or multi-byte characters split across reads) survive.
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface EventStreamParser {
+  feed: (chunk: string) => void;
+  flush: () => void;
+}
+
+// Create a parser that buffers partial lines and calls `onEvent` for every
+// complete event. `feed` accepts already-decoded text in arbitrary slices.
+export const createEventStreamParser = (
+  onEvent: (event: ServerSentEvent) => void
+): EventStreamParser => {
+  let buffer = '';
+  let isFirstChunk = true;
+  let dataLines: string[] = [];
+  let eventType = '';
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+        retry
+      });
+    }
+    dataLines = [];
+    eventType = '';
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    // Comment lines (often used as keep-alives)
+    if (line.startsWith(':')) return;
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      // Unknown fields are ignored per spec
+    }
+  };
+
+  const feed = (chunk: string) => {
+    if (isFirstChunk && chunk.length > 0) {
+      isFirstChunk = false;
+      if (chunk.charCodeAt(0) === 0xfeff) chunk = chunk.slice(1);
+    }
+    buffer += chunk;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      if (char === '\r' && i === buffer.length - 1) break;
+
+      processLine(buffer.slice(start, i));
+      if (char === '\r' && buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+  };
+
+  // Called at end of stream: process any unterminated line and dispatch the
+  // pending event, since some servers omit the final blank line.
+  const flush = () => {
+    if (buffer.length > 0) {
+      processLine(buffer.replace(/\r$/, ''));
+      buffer = '';
+    }
+    dispatch();
+  };
+
+  return { feed, flush };
+};
+
+// Read a fetch response body as a sequence of server-sent events. Breaking out
+// of the loop cancels the underlying reader so the connection is released.
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const queue: ServerSentEvent[] = [];
+  const parser = createEventStreamParser(event => queue.push(event));
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      parser.feed(decoder.decode(value, { stream: true }));
+      while (queue.length > 0) yield queue.shift()!;
+    }
+
+    parser.feed(decoder.decode());
+    parser.flush();
+    while (queue.length > 0) yield queue.shift()!;
+  } finally {
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
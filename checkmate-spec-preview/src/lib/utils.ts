@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Short human-readable age such as "just now", "5m ago", "3h ago" or "2d ago"
+export function formatRelativeTime(date: Date | string, now: Date = new Date()) {
+  const value = typeof date === "string" ? new Date(date) : date
+  const seconds = Math.max(0, Math.floor((now.getTime() - value.getTime()) / 1000))
+
+  if (Number.isNaN(seconds)) return ""
+  if (seconds < 60) return "just now"
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`
+  if (seconds < 86400 * 30) return `${Math.floor(seconds / 86400)}d ago`
+  return value.toLocaleDateString()
+}
@@ -0,0 +1,36 @@
+import { safeRedirectPath, validateLogin, validatePassword, validateRegistration, validateUsername } from './validation';
+
+describe('auth validation', () => {
+  it('requires both login fields', () => {
+    expect(validateLogin({ username: ' ', password: '' })).toEqual({
+      username: 'Username is required',
+      password: 'Password is required'
+    });
+    expect(validateLogin({ username: 'demo', password: 'demo123' })).toEqual({});
+  });
+
+  it('checks username and password rules', () => {
+    expect(validateUsername('ab')).toMatch(/3 to 32/);
+    expect(validateUsername('has space')).toMatch(/letters, numbers/);
+    expect(validatePassword('short1')).toMatch(/at least 8/);
+    expect(validatePassword('longenough')).toMatch(/letter and one number/);
+    expect(validatePassword('longenough1')).toBeNull();
+  });
+
+  it('reports every registration problem at once', () => {
+    expect(validateRegistration({ email: 'nope', username: 'ok_user', password: 'abc', confirmPassword: 'abd' })).toEqual({
+      email: 'Enter a valid email address',
+      password: 'Password must be at least 8 characters',
+      confirmPassword: 'Passwords do not match'
+    });
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it('keeps same-origin paths and rejects everything else', () => {
+    expect(safeRedirectPath('/account')).toBe('/account');
+    expect(safeRedirectPath('//evil.example')).toBe('/');
+    expect(safeRedirectPath('https://evil.example')).toBe('/');
+    expect(safeRedirectPath(null)).toBe('/');
+  });
+});
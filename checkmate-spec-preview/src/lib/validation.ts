@@ -0,0 +1,56 @@
+// Form validation for the auth pages
+// Each validator returns an error message, or null when the value is fine.
+
+export type FieldErrors<T extends string> = Partial<Record<T, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const validateEmail = (email: string): string | null => {
+  if (!email.trim()) return 'Email is required';
+  return EMAIL_PATTERN.test(email.trim()) ? null : 'Enter a valid email address';
+};
+
+export const validateUsername = (username: string): string | null => {
+  const value = username.trim();
+  if (!value) return 'Username is required';
+  if (value.length < 3 || value.length > 32) return 'Username must be 3 to 32 characters';
+  return USERNAME_PATTERN.test(value) ? null : 'Use letters, numbers, dots, dashes or underscores';
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (!password) return 'Password is required';
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  return /[a-zA-Z]/.test(password) && /\d/.test(password) ? null : 'Include at least one letter and one number';
+};
+
+export const validateLogin = (values: { username: string; password: string }): FieldErrors<'username' | 'password'> => {
+  const errors: FieldErrors<'username' | 'password'> = {};
+  if (!values.username.trim()) errors.username = 'Username is required';
+  if (!values.password) errors.password = 'Password is required';
+  return errors;
+};
+
+export const validateRegistration = (values: {
+  email: string;
+  username: string;
+  password: string;
+  confirmPassword: string;
+}): FieldErrors<'email' | 'username' | 'password' | 'confirmPassword'> => {
+  const errors: FieldErrors<'email' | 'username' | 'password' | 'confirmPassword'> = {};
+  const email = validateEmail(values.email);
+  const username = validateUsername(values.username);
+  const password = validatePassword(values.password);
+
+  if (email) errors.email = email;
+  if (username) errors.username = username;
+  if (password) errors.password = password;
+  if (values.confirmPassword !== values.password) errors.confirmPassword = 'Passwords do not match';
+  return errors;
+};
+
+// Only same-origin paths are allowed as a post-login destination
+export const safeRedirectPath = (next: string | null | undefined, fallback: string = '/'): string =>
+  next && next.startsWith('/') && !next.startsWith('//') ? next : fallback;